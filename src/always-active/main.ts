@@ -3,6 +3,7 @@
 import * as vscode from "vscode";
 import { createOutputChannel } from "../extension";
 import { openFile } from "./openFile";
+import { registerRecordedCommand } from "../helpers/commandRecorder";
 
 /**
  * Prints the given content on the output channel.
@@ -130,8 +131,8 @@ export function activateAlwaysActive(name: string, context: vscode.ExtensionCont
     }
   }
 
-  context.subscriptions.push(vscode.commands.registerCommand("vstoys.openFile", openFile));
-  context.subscriptions.push(vscode.commands.registerCommand("vstoys.test", g));
+  context.subscriptions.push(registerRecordedCommand("vstoys.openFile", openFile));
+  context.subscriptions.push(registerRecordedCommand("vstoys.test", g));
 
   printAlwaysActiveOutput(`${name} activated`, false);
 }
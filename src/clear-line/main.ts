@@ -2,6 +2,7 @@
 // Import the module and reference it with the alias vscode in your code below
 import * as vscode from "vscode";
 import { createOutputChannel } from "../extension";
+import { registerRecordedCommand } from "../helpers/commandRecorder";
 
 /**
  * Prints the given content on the output channel.
@@ -17,7 +18,7 @@ export function activateClearLine(name: string, context: vscode.ExtensionContext
   printClearLineOutput(`${name} activating`);
 
   context.subscriptions.push(
-    vscode.commands.registerCommand("vstoys.clear-line.clearLines", async () => {
+    registerRecordedCommand("vstoys.clear-line.clearLines", async () => {
       // Get all selections
       const editor = vscode.window.activeTextEditor;
       if (!editor) {
@@ -3,6 +3,8 @@
 import * as vscode from "vscode";
 import { createOutputChannel } from "../extension";
 import { pickColorType } from "../helpers/pickColorType";
+import { recordYank } from "../helpers/yankHistory";
+import { registerRecordedCommand } from "../helpers/commandRecorder";
 
 const ConfigSpace = "vstoys.copy-highlight";
 
@@ -14,6 +16,9 @@ const ConfigSpace = "vstoys.copy-highlight";
  */
 let printCopyHighlightOutput: (content: string, reveal?: boolean) => void;
 
+// Highlights that are still waiting for their timeout, disposed early if the module is deactivated
+const pendingHighlights: Map<vscode.TextEditorDecorationType, NodeJS.Timeout> = new Map();
+
 export function activateCopyHighlight(name: string, context: vscode.ExtensionContext) {
   console.log(`Activating ${name}`);
   printCopyHighlightOutput = createOutputChannel(`${name}`);
@@ -27,9 +32,21 @@ export function activateCopyHighlight(name: string, context: vscode.ExtensionCon
   let timeout: number | undefined = config.get("timeout");
 
   context.subscriptions.push(
-    vscode.commands.registerCommand("vstoys.copy-highlight.copy", async () => {
+    registerRecordedCommand("vstoys.copy-highlight.copy", async () => {
       // Copy to clipboard
       await vscode.commands.executeCommand("editor.action.clipboardCopyAction");
+      const copyingEditor = vscode.window.activeTextEditor;
+      recordYank(
+        await vscode.env.clipboard.readText(),
+        "yank",
+        "copy-highlight",
+        copyingEditor && {
+          document: copyingEditor.document,
+          range: copyingEditor.selection,
+          // Empty selections copy their whole line
+          linewise: copyingEditor.selections.every((selection) => selection.isEmpty),
+        }
+      );
 
       console.log("Copy command executed");
       const editor = vscode.window.activeTextEditor;
@@ -49,9 +66,13 @@ export function activateCopyHighlight(name: string, context: vscode.ExtensionCon
       editor.setDecorations(decorationType, getSelections(editor));
 
       // Remove decoration after specified timeout
-      setTimeout(() => {
-        decorationType.dispose();
-      }, timeout);
+      pendingHighlights.set(
+        decorationType,
+        setTimeout(() => {
+          pendingHighlights.delete(decorationType);
+          decorationType.dispose();
+        }, timeout)
+      );
     }),
     vscode.workspace.onDidChangeConfiguration((event) => {
       if (
@@ -71,6 +92,14 @@ export function activateCopyHighlight(name: string, context: vscode.ExtensionCon
   printCopyHighlightOutput(`${name} activated`, false);
 }
 
+export function deactivateCopyHighlight() {
+  pendingHighlights.forEach((timeout, decorationType) => {
+    clearTimeout(timeout);
+    decorationType.dispose();
+  });
+  pendingHighlights.clear();
+}
+
 function getSelections(editor: vscode.TextEditor): readonly vscode.Selection[] | vscode.Range[] {
   let lastSelectionLine = -1;
 
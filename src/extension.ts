@@ -3,18 +3,19 @@
 import * as vscode from "vscode";
 // import { activateDotRepeat } from "./dot-repeat/main";
 import { activateGit } from "./git/main";
-import { activateCopyHighlight } from "./copy-highlight/main";
+import { activateCopyHighlight, deactivateCopyHighlight } from "./copy-highlight/main";
 import { activateClearLine } from "./clear-line/main";
 import { activateFileDecorator } from "./git-file-decorator/main";
 import { activateRegisters } from "./registers/main";
 import { activateGotoLine } from "./goto-line/main";
 import { activatePasteReplace } from "./paste-replace/main";
 import { activateSmartOpen, deactivateSmartOpen } from "./smart-open/main";
-import { activateHyper } from "./hyper/main";
-import { activateMotions } from "./motions/main";
+import { activateHyper, deactivateHyper } from "./hyper/main";
+import { activateMotions, deactivateMotions } from "./motions/main";
 import { activateAlwaysActive } from "./always-active/main";
 import { activateSemanticJump } from "./jump/main";
 import { activateFromTill } from "./from-till/main";
+import { IScorer, registerScorer } from "./smart-open/scoring";
 
 try {
   require("./debug");
@@ -22,65 +23,66 @@ try {
   console.log("Error importing debug.ts");
 }
 
-let vsToys: {
+type VsToy = {
   name: string;
   moduleContext: string;
+  // The configuration section (under "vstoys.") that holds the "enabled" setting, defaults to moduleContext
+  configSection?: string;
+  // Receives a module scoped context, everything pushed into its subscriptions is disposed on deactivation
   activator: (name: string, context: vscode.ExtensionContext) => void;
-  deactivator: () => void;
-}[] = [
+  // Releases module level state that does not live in the module subscriptions (active layers, pending timers...)
+  deactivator?: () => void;
+};
+
+// Exported with activateToy, deactivateToy and activeToys for the extension tests
+export const vsToys: VsToy[] = [
   {
     name: "Always Active",
     moduleContext: "always-active",
     activator: activateAlwaysActive,
-    deactivator: () => {},
   },
   {
     name: "Clear Line",
     moduleContext: "clear-line",
     activator: activateClearLine,
-    deactivator: () => {},
   },
   {
     name: "Copy Highlight",
     moduleContext: "copy-highlight",
     activator: activateCopyHighlight,
-    deactivator: () => {},
+    deactivator: deactivateCopyHighlight,
   },
   {
     name: "Hyper Layer",
     moduleContext: "hyper",
     activator: activateHyper,
-    deactivator: () => {},
+    deactivator: deactivateHyper,
   },
   {
     name: "Git",
     moduleContext: "git",
     activator: activateGit,
-    deactivator: () => {},
   },
   {
     name: "Git File Decorator",
     moduleContext: "git-file-decorator",
+    configSection: "git.fileDecorator",
     activator: (name, context) => activateFileDecorator(name, context),
-    deactivator: () => {},
   },
   {
     name: "Registers",
     moduleContext: "registers",
     activator: activateRegisters,
-    deactivator: () => {},
   },
   {
     name: "Goto Line",
     moduleContext: "goto-line",
     activator: activateGotoLine,
-    deactivator: () => {},
   },
   {
     name: "Paste Replace",
     moduleContext: "paste-replace",
     activator: activatePasteReplace,
-    deactivator: () => {},
   },
   {
     name: "Smart Open",
@@ -92,19 +94,17 @@ let vsToys: {
     name: "Motions",
     moduleContext: "motions",
     activator: (name, context) => activateMotions(name, context, createOutputChannel),
-    deactivator: () => {},
+    deactivator: deactivateMotions,
   },
   {
     name: "Jump",
     moduleContext: "jump",
     activator: activateSemanticJump,
-    deactivator: () => {},
   },
   {
     name: "From Till",
     moduleContext: "from-till",
     activator: activateFromTill,
-    deactivator: () => {},
   },
 ];
 
@@ -113,6 +113,9 @@ export function getExtensionContext(): vscode.ExtensionContext {
   return DAcontext;
 }
 
+// The module scoped contexts of the toys that are currently active, keyed by moduleContext
+export const activeToys: Map<string, vscode.ExtensionContext> = new Map();
+
 /**
  * Prints the given content on the output channel.
  *
@@ -121,9 +124,20 @@ export function getExtensionContext(): vscode.ExtensionContext {
  */
 export let printChannelOutput: (content: string, reveal?: boolean) => void;
 
+/**
+ * The API other extensions get from `vscode.extensions.getExtension("Logonz.vstoys")?.activate()`
+ */
+export interface VsToysApi {
+  /**
+   * Adds a scorer that ranks the files of Smart Open, its weight can be set under its weightKey in the score config.
+   * @returns Removes the scorer again
+   */
+  registerSmartOpenScorer(scorer: IScorer): vscode.Disposable;
+}
+
 // This method is called when your extension is activated
 // Your extension is activated the very first time the command is executed
-export function activate(context: vscode.ExtensionContext) {
+export function activate(context: vscode.ExtensionContext): VsToysApi {
   DAcontext = context;
   printChannelOutput = createOutputChannel("Main");
   printChannelOutput("Started");
@@ -133,19 +147,24 @@ export function activate(context: vscode.ExtensionContext) {
   vscode.commands.executeCommand("setContext", "vstoys.installed", true);
   printChannelOutput("vstoys.installed context set to true");
 
-  vsToys.forEach((toy) => {
-    const start = performance.now();
-    const fullContext = `vstoys.${toy.moduleContext}.active`;
-    // TODO: Check if the "toy" should be enabled or not
-    printChannelOutput(`---> Loading Module: ${toy.name}, Activating Context: ${fullContext}`);
-    console.log(`---> Loading Module: ${toy.name}, Activating Context: ${fullContext}`);
-    vscode.commands.executeCommand("setContext", fullContext, true);
-    toy.activator(toy.name, context);
-    const end = performance.now();
-    const duration = end - start;
-    printChannelOutput(`---> Module: ${toy.name} activated in ${duration}ms`);
-    console.log(`---> Module: ${toy.name} activated in ${duration}ms`);
-  });
+  updateToys(context);
+
+  // Activate or tear down toys live when their "enabled" setting flips
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (
+        event.affectsConfiguration("vstoys.enabled") ||
+        vsToys.some((toy) => event.affectsConfiguration(`vstoys.${getToyConfigSection(toy)}.enabled`))
+      ) {
+        printChannelOutput("Module enablement changed");
+        updateToys(context);
+      }
+    })
+  );
+
+  return {
+    registerSmartOpenScorer: registerScorer,
+  };
 }
 
 // This method is called when your extension is deactivated
@@ -155,22 +174,107 @@ export function deactivate() {
   printChannelOutput("vstoys.installed context set to false");
 
   vsToys.forEach((toy) => {
-    const fullContext = `vstoys.${toy.moduleContext}.active`;
-    printChannelOutput(`---> Loading Module: ${toy.name}, Deactivating Context: ${fullContext}`);
-    console.log(`---> Loading Module: ${toy.name}, Deactivating Context: ${fullContext}`);
-    vscode.commands.executeCommand("setContext", fullContext, false);
-    toy.deactivator();
+    if (activeToys.has(toy.moduleContext)) {
+      deactivateToy(toy);
+    }
   });
 }
 
+function getToyConfigSection(toy: VsToy): string {
+  return toy.configSection ?? toy.moduleContext;
+}
+
+/**
+ * Checks both the global "vstoys.enabled" setting and the module specific "enabled" setting.
+ * Modules without a declared setting are treated as enabled.
+ */
+function isToyEnabled(toy: VsToy): boolean {
+  const config = vscode.workspace.getConfiguration("vstoys");
+  return config.get<boolean>("enabled", true) && config.get<boolean>(`${getToyConfigSection(toy)}.enabled`, true);
+}
+
+/**
+ * Activates every enabled toy that is not active yet and deactivates every active toy that has been disabled.
+ */
+function updateToys(context: vscode.ExtensionContext) {
+  vsToys.forEach((toy) => {
+    const enabled = isToyEnabled(toy);
+    const active = activeToys.has(toy.moduleContext);
+    if (enabled && !active) {
+      activateToy(toy, context);
+    } else if (!enabled && active) {
+      deactivateToy(toy);
+    } else if (!enabled) {
+      printChannelOutput(`---> Skipping Module: ${toy.name} (disabled)`);
+    }
+  });
+}
+
+export function activateToy(toy: VsToy, context: vscode.ExtensionContext) {
+  const start = performance.now();
+  const fullContext = `vstoys.${toy.moduleContext}.active`;
+  printChannelOutput(`---> Loading Module: ${toy.name}, Activating Context: ${fullContext}`);
+  console.log(`---> Loading Module: ${toy.name}, Activating Context: ${fullContext}`);
+
+  // Give each module its own subscriptions so it can be torn down without touching the other modules
+  const moduleContext: vscode.ExtensionContext = Object.create(context, {
+    subscriptions: { value: [], enumerable: true },
+  });
+  activeToys.set(toy.moduleContext, moduleContext);
+
+  vscode.commands.executeCommand("setContext", fullContext, true);
+  try {
+    toy.activator(toy.name, moduleContext);
+  } catch (error) {
+    printChannelOutput(`---> Module: ${toy.name} failed to activate: ${error}`, true);
+    console.error(`---> Module: ${toy.name} failed to activate`, error);
+  }
+  const end = performance.now();
+  const duration = end - start;
+  printChannelOutput(`---> Module: ${toy.name} activated in ${duration}ms`);
+  console.log(`---> Module: ${toy.name} activated in ${duration}ms`);
+}
+
+export function deactivateToy(toy: VsToy) {
+  const fullContext = `vstoys.${toy.moduleContext}.active`;
+  printChannelOutput(`---> Unloading Module: ${toy.name}, Deactivating Context: ${fullContext}`);
+  console.log(`---> Unloading Module: ${toy.name}, Deactivating Context: ${fullContext}`);
+  vscode.commands.executeCommand("setContext", fullContext, false);
+
+  const moduleContext = activeToys.get(toy.moduleContext);
+  activeToys.delete(toy.moduleContext);
+
+  try {
+    toy.deactivator?.();
+  } catch (error) {
+    console.error(`---> Module: ${toy.name} failed to deactivate`, error);
+  }
+
+  // Dispose everything the module registered (commands, listeners, providers...)
+  moduleContext?.subscriptions.forEach((disposable) => {
+    try {
+      disposable.dispose();
+    } catch (error) {
+      console.error(`---> Module: ${toy.name} failed to dispose a subscription`, error);
+    }
+  });
+  moduleContext?.subscriptions.splice(0);
+}
+
+const outputChannels: Map<string, vscode.OutputChannel> = new Map();
+
 /**
  * Creates an output channel with the given name and returns a function that can be used to print content to the channel.
  *
+ * Channels are cached by name, calling this again with the same name returns a printer for the same channel.
+ *
  * @param name - The name of the output channel. Will be prefixed with "VSCode Toys - ".
  * @returns A function that takes content to be printed to the output channel, and an optional boolean to reveal the channel.
  */
 export function createOutputChannel(name: string): (content: string, reveal?: boolean) => void {
-  const outputChan = vscode.window.createOutputChannel(`VSCode Toys - ${name}`);
+  // Reuse the channel when a module is re-activated so we don't end up with duplicate channels
+  const outputChan = outputChannels.get(name) ?? vscode.window.createOutputChannel(`VSCode Toys - ${name}`);
+  outputChannels.set(name, outputChan);
   return function (content: string, reveal = false): void {
     console.log(content);
     outputChan.appendLine(content);
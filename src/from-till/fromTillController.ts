@@ -2,6 +2,7 @@ import * as vscode from "vscode";
 import { pickColorType } from "../helpers/pickColorType";
 import { fade, unfade } from "./fadeDecorator";
 import { FromTillStatusBar } from "./statusBar";
+import { registerTypeHandler } from "../helpers/commandRecorder";
 
 type MotionKind = "find" | "till";
 
@@ -156,7 +157,7 @@ export class FromTillController implements vscode.Disposable {
   }
 
   private registerModeListeners(): void {
-    const typeDisposable = vscode.commands.registerCommand("type", async (args: { text: string }) => {
+    const typeDisposable = registerTypeHandler(async (args: { text: string }) => {
       const text = args?.text ?? "";
 
       if (!this.modeState) {
@@ -461,7 +462,7 @@ export class FromTillController implements vscode.Disposable {
 
       this.captureResolver = finish;
 
-      const typeDisposable = vscode.commands.registerCommand("type", async (args: { text: string }) => {
+      const typeDisposable = registerTypeHandler(async (args: { text: string }) => {
         const text = args?.text ?? "";
         if (!this.captureResolver) {
           await vscode.commands.executeCommand("default:type", args);
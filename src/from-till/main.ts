@@ -1,6 +1,7 @@
 import * as vscode from "vscode";
 import { createOutputChannel } from "../extension";
 import { FromTillController } from "./fromTillController";
+import { registerRecordedCommand } from "../helpers/commandRecorder";
 
 export function activateFromTill(name: string, context: vscode.ExtensionContext): void {
   const output = createOutputChannel(name);
@@ -10,7 +11,7 @@ export function activateFromTill(name: string, context: vscode.ExtensionContext)
   context.subscriptions.push(controller);
 
   const register = (command: string, handler: (...args: unknown[]) => unknown) => {
-    const disposable = vscode.commands.registerCommand(command, handler);
+    const disposable = registerRecordedCommand(command, handler);
     context.subscriptions.push(disposable);
   };
 
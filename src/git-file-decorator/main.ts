@@ -11,12 +11,14 @@ import { createOutputChannel } from "../extension";
  */
 export let printGitFileDecoratorOutput: (content: string, reveal?: boolean) => void;
 
-export class GitFileDecorator implements vscode.FileDecorationProvider {
+export class GitFileDecorator implements vscode.FileDecorationProvider, vscode.Disposable {
   private readonly _onDidChangeFileDecorations: vscode.EventEmitter<vscode.Uri | vscode.Uri[]> =
     new vscode.EventEmitter<vscode.Uri | vscode.Uri[]>();
   private gitStatusCache: string[] = [];
   private gitDiffCache: string[] = [];
   private refreshTimeout: NodeJS.Timeout | undefined;
+  private initTimeout: NodeJS.Timeout | undefined;
+  private disposables: vscode.Disposable[] = [];
   private additionalDelay: number = 0;
 
   // Constants
@@ -36,7 +38,8 @@ export class GitFileDecorator implements vscode.FileDecorationProvider {
 
   constructor() {
     // Lazy mans lazy loading
-    setTimeout(() => {
+    this.initTimeout = setTimeout(() => {
+      this.initTimeout = undefined;
       this.updateConfig();
       this.refreshCache();
 
@@ -47,55 +50,84 @@ export class GitFileDecorator implements vscode.FileDecorationProvider {
       //   this.refresh(event.document.uri);
       // });
 
-      vscode.workspace.onDidSaveTextDocument((document) => {
-        console.log(`[vstoys] File saved: ${document.uri.fsPath}`);
-        this.refreshCache();
-        this.refresh(document.uri);
-      });
-
-      vscode.workspace.onDidDeleteFiles((event) => {
-        this.refreshCache();
-        event.files.forEach((file) => {
-          console.log(`[vstoys] File deleted: ${file.fsPath}`);
-          this.refresh(file);
-        });
-      });
+      this.disposables.push(
+        vscode.workspace.onDidSaveTextDocument((document) => {
+          console.log(`[vstoys] File saved: ${document.uri.fsPath}`);
+          this.refreshCache();
+          this.refresh(document.uri);
+        })
+      );
 
-      vscode.workspace.onDidCreateFiles((event) => {
-        this.refreshCache();
-        event.files.forEach((file) => {
-          console.log(`[vstoys] File created: ${file.fsPath}`);
-          this.refresh(file);
-        });
-      });
+      this.disposables.push(
+        vscode.workspace.onDidDeleteFiles((event) => {
+          this.refreshCache();
+          event.files.forEach((file) => {
+            console.log(`[vstoys] File deleted: ${file.fsPath}`);
+            this.refresh(file);
+          });
+        })
+      );
 
-      vscode.workspace.onDidRenameFiles((event) => {
-        this.refreshCache();
-        event.files.forEach((file) => {
-          console.log(`[vstoys] File renamed: ${file.oldUri.fsPath} to ${file.newUri.fsPath}`);
-          this.refresh(file.newUri);
-        });
-      });
+      this.disposables.push(
+        vscode.workspace.onDidCreateFiles((event) => {
+          this.refreshCache();
+          event.files.forEach((file) => {
+            console.log(`[vstoys] File created: ${file.fsPath}`);
+            this.refresh(file);
+          });
+        })
+      );
 
-      vscode.workspace.onDidChangeWorkspaceFolders(() => {
-        console.log(`[vstoys] Workspace folders changed.`);
-        this.refreshCache();
-        this.refresh();
-      });
+      this.disposables.push(
+        vscode.workspace.onDidRenameFiles((event) => {
+          this.refreshCache();
+          event.files.forEach((file) => {
+            console.log(`[vstoys] File renamed: ${file.oldUri.fsPath} to ${file.newUri.fsPath}`);
+            this.refresh(file.newUri);
+          });
+        })
+      );
 
-      vscode.workspace.onDidChangeConfiguration((event) => {
-        if (event.affectsConfiguration("vstoys.git.fileDecorator")) {
-          console.log(`[vstoys] File decorator configuration changed.`);
-          this.updateConfig();
+      this.disposables.push(
+        vscode.workspace.onDidChangeWorkspaceFolders(() => {
+          console.log(`[vstoys] Workspace folders changed.`);
           this.refreshCache();
           this.refresh();
-        }
-      });
+        })
+      );
+
+      this.disposables.push(
+        vscode.workspace.onDidChangeConfiguration((event) => {
+          if (event.affectsConfiguration("vstoys.git.fileDecorator")) {
+            console.log(`[vstoys] File decorator configuration changed.`);
+            this.updateConfig();
+            this.refreshCache();
+            this.refresh();
+          }
+        })
+      );
 
       this.schedulePeriodicRefresh();
     }, 100);
   }
 
+  /**
+   * Stops the periodic refresh and releases all listeners.
+   */
+  dispose(): void {
+    if (this.initTimeout) {
+      clearTimeout(this.initTimeout);
+      this.initTimeout = undefined;
+    }
+    if (this.refreshTimeout) {
+      clearTimeout(this.refreshTimeout);
+      this.refreshTimeout = undefined;
+    }
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this.disposables = [];
+    this._onDidChangeFileDecorations.dispose();
+  }
+
   private updateConfig(): void {
     const config = vscode.workspace.getConfiguration("vstoys.git.fileDecorator");
     this.enabled = config.get("enabled", true);
@@ -281,5 +313,5 @@ export function activateFileDecorator(name: string, context: vscode.ExtensionCon
   printGitFileDecoratorOutput = createOutputChannel("Git File Decorator");
 
   const decorator = new GitFileDecorator();
-  context.subscriptions.push(vscode.window.registerFileDecorationProvider(decorator));
+  context.subscriptions.push(decorator, vscode.window.registerFileDecorationProvider(decorator));
 }
@@ -1,9 +1,10 @@
 import * as vscode from "vscode";
 import { execSync } from "child_process";
 import { printGitOutput } from "./main";
+import { registerRecordedCommand } from "../helpers/commandRecorder";
 
 export function RegisterGitStageFile(): vscode.Disposable {
-  return vscode.commands.registerCommand(
+  return registerRecordedCommand(
     "vstoys.git.stageFile",
     async () => {
       const editor = vscode.window.activeTextEditor;
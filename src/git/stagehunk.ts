@@ -5,9 +5,10 @@ import * as tmp from "tmp";
 import parseDiff from "parse-diff";
 import deindent from "deindent"; // If not used, consider removing
 import { printGitOutput } from "./main";
+import { registerRecordedCommand } from "../helpers/commandRecorder";
 
 export function RegisterGitStageHunk(): vscode.Disposable {
-  return vscode.commands.registerCommand(
+  return registerRecordedCommand(
     "vstoys.git.stageHunk",
     async () => {
       const editor = vscode.window.activeTextEditor;
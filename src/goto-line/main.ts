@@ -5,6 +5,7 @@ import { createOutputChannel } from "../extension";
 import { navigateToLine, navigateToRelativeLine } from "./navigation";
 import { GotoLinePreview } from "./preview";
 import { GotoLineSettingsManager } from "./settings";
+import { registerRecordedCommand } from "../helpers/commandRecorder";
 
 /**
  * Prints the given content on the output channel.
@@ -33,7 +34,7 @@ export function activateGotoLine(name: string, context: vscode.ExtensionContext)
     gotoLinePreview.updateSettings(newSettings);
   });
   context.subscriptions.push(
-    vscode.commands.registerCommand("vstoys.goto-line.goto", async (args) => {
+    registerRecordedCommand("vstoys.goto-line.goto", async (args) => {
       console.log(args);
       const editor = vscode.window.activeTextEditor;
       if (!editor) {
@@ -95,7 +96,7 @@ export function activateGotoLine(name: string, context: vscode.ExtensionContext)
 
   let lineNumberSettingTimeout: NodeJS.Timeout;
   context.subscriptions.push(
-    vscode.commands.registerCommand("vstoys.goto-line.goto-relative", async (args) => {
+    registerRecordedCommand("vstoys.goto-line.goto-relative", async (args) => {
       if (args && args.deactivateAllHyper) {
         try {
           vscode.commands.executeCommand("vstoys.hyper.deactivateAll");
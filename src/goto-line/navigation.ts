@@ -1,4 +1,5 @@
 import * as vscode from "vscode";
+import { recordYank } from "../helpers/yankHistory";
 
 /**
  * Navigate to a line relative to the current position
@@ -88,6 +89,7 @@ export async function navigateToLine(
       // Copy the selected text to clipboard
       const selectedText = editor.document.getText(newSelection);
       await vscode.env.clipboard.writeText(selectedText);
+      recordYank(selectedText, "yank", "goto-line", { document: editor.document, range: newSelection });
       printOutput?.(
         `Selected and copied from line ${currentPosition.line + 1} to line ${displayLineNumber} (${direction}ward)`
       );
@@ -95,10 +97,12 @@ export async function navigateToLine(
 
     // ? Delete the selected text
     if (args?.delete === true) {
+      const deletedText = editor.document.getText(newSelection);
       const applied = await editor.edit((editBuilder) => {
         editBuilder.delete(newSelection);
       });
       if (applied) {
+        recordYank(deletedText, "delete", "goto-line", { document: editor.document, range: newSelection });
         printOutput?.(
           `Selected and deleted from line ${currentPosition.line + 1} to line ${displayLineNumber} (${direction}ward)`
         );
@@ -134,17 +138,28 @@ export async function navigateToLine(
       editor.selection = new vscode.Selection(position, position);
       await vscode.commands.executeCommand("editor.action.clipboardCopyAction");
       editor.selections = selections;
+      recordYank(await vscode.env.clipboard.readText(), "yank", "goto-line", {
+        document: editor.document,
+        range: editor.document.lineAt(position.line).range,
+        linewise: true,
+      });
     }
 
     // ? Delete
     if (args?.delete === true) {
       // Delete the entire target line
       const targetLineRange = editor.document.lineAt(position.line).rangeIncludingLineBreak;
+      const deletedText = editor.document.getText(targetLineRange);
       const applied = await editor.edit((editBuilder) => {
         editBuilder.delete(targetLineRange);
       });
 
       if (applied) {
+        recordYank(deletedText, "delete", "goto-line", {
+          document: editor.document,
+          range: targetLineRange,
+          linewise: true,
+        });
         printOutput?.(`Deleted line ${displayLineNumber}`);
         // Reindent after delete completes
         // await vscode.commands.executeCommand("editor.action.reindentselectedlines");
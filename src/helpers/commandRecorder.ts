@@ -0,0 +1,116 @@
+import * as vscode from "vscode";
+import { AsyncLocalStorage } from "async_hooks";
+
+export interface RecordedCommand {
+  command: string;
+  args: any[];
+}
+
+const commandEmitter = new vscode.EventEmitter<RecordedCommand>();
+
+/**
+ * Fires when a VsToys command runs, unless another VsToys command runs it, and for all `type` input.
+ * Only commands registered through {@link registerRecordedCommand} and {@link registerTypeHandler} are reported.
+ */
+export const onDidRunCommand = commandEmitter.event;
+
+// The VsToys command an invocation runs in. VS Code runs the commands of this extension host in the async
+// context of `executeCommand`, so only the commands a VsToys command runs itself see it, not the ones the user
+// runs while a VsToys command is still waiting for input
+const runningCommand = new AsyncLocalStorage<string>();
+// Modules that registered `type` to read input, they get it instead of the type capture
+let moduleTypeHandlers = 0;
+let typeCaptures = 0;
+let typeCapture: vscode.Disposable | undefined;
+
+function runReported(command: string, args: any[], run: () => any): any {
+  if (runningCommand.getStore() === undefined) {
+    commandEmitter.fire({ command, args });
+  }
+  return runningCommand.run(command, run);
+}
+
+/**
+ * Registers a VsToys command that reports to {@link onDidRunCommand} when it runs, so macros can record it.
+ * Use it instead of `vscode.commands.registerCommand`, and {@link registerTypeHandler} for `type`.
+ */
+export function registerRecordedCommand(
+  command: string,
+  callback: (...args: any[]) => any,
+  thisArg?: any
+): vscode.Disposable {
+  return vscode.commands.registerCommand(command, (...args: any[]) =>
+    runReported(command, args, () => callback.apply(thisArg, args))
+  );
+}
+
+function claimTypeCapture() {
+  if (typeCaptures === 0 || moduleTypeHandlers > 0 || typeCapture) {
+    return;
+  }
+  try {
+    typeCapture = vscode.commands.registerCommand("type", (args) =>
+      runReported("type", [args], () => vscode.commands.executeCommand("default:type", args))
+    );
+  } catch (error) {
+    // Another extension, like vim, reads the typed input
+    console.warn("Can't capture type input:", error);
+  }
+}
+
+function releaseTypeCapture() {
+  typeCapture?.dispose();
+  typeCapture = undefined;
+}
+
+/**
+ * Registers a module's `type` handler, lending it the `type` command while the type capture holds it.
+ * Use it instead of `vscode.commands.registerCommand("type", ...)`, so typed input keeps being recorded.
+ */
+export function registerTypeHandler(callback: (...args: any[]) => any, thisArg?: any): vscode.Disposable {
+  moduleTypeHandlers++;
+  releaseTypeCapture();
+
+  let disposable: vscode.Disposable;
+  try {
+    disposable = vscode.commands.registerCommand("type", (...args: any[]) =>
+      runReported("type", args, () => callback.apply(thisArg, args))
+    );
+  } catch (error) {
+    moduleTypeHandlers--;
+    claimTypeCapture();
+    throw error;
+  }
+
+  let disposed = false;
+  return new vscode.Disposable(() => {
+    if (disposed) {
+      return;
+    }
+    disposed = true;
+    disposable.dispose();
+    moduleTypeHandlers--;
+    claimTypeCapture();
+  });
+}
+
+/**
+ * Reports typed input to {@link onDidRunCommand} while no module reads it, passing it on to the editor.
+ * @returns Stops capturing once every capture is disposed.
+ */
+export function captureTypeInput(): vscode.Disposable {
+  typeCaptures++;
+  claimTypeCapture();
+
+  let disposed = false;
+  return new vscode.Disposable(() => {
+    if (disposed) {
+      return;
+    }
+    disposed = true;
+    typeCaptures--;
+    if (typeCaptures === 0) {
+      releaseTypeCapture();
+    }
+  });
+}
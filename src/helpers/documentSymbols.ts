@@ -0,0 +1,83 @@
+import * as vscode from "vscode";
+
+export interface FlatDocumentSymbol {
+  name: string;
+  detail: string;
+  kind: vscode.SymbolKind;
+  // The whole symbol, e.g. a function with its body
+  range: vscode.Range;
+  // The part to put the cursor on, e.g. the name of the function
+  selectionRange: vscode.Range;
+  // The names of the symbols it is nested in, outermost first
+  containers: string[];
+}
+
+/**
+ * Fetches the symbols of a document from the language providers, nested symbols flattened in document order.
+ */
+export async function getDocumentSymbols(uri: vscode.Uri): Promise<FlatDocumentSymbol[]> {
+  const symbols = await vscode.commands.executeCommand<
+    Array<vscode.DocumentSymbol | vscode.SymbolInformation> | undefined
+  >("vscode.executeDocumentSymbolProvider", uri);
+  if (!symbols || !Array.isArray(symbols)) {
+    return [];
+  }
+
+  const flatSymbols: FlatDocumentSymbol[] = [];
+  const addSymbol = (symbol: vscode.DocumentSymbol | vscode.SymbolInformation, containers: string[]) => {
+    // Providers that only return symbol information have no children or selection range
+    if ("children" in symbol && "selectionRange" in symbol) {
+      flatSymbols.push({
+        name: symbol.name,
+        detail: symbol.detail,
+        kind: symbol.kind,
+        range: symbol.range,
+        selectionRange: symbol.selectionRange,
+        containers,
+      });
+      symbol.children.forEach((child) => addSymbol(child, [...containers, symbol.name]));
+    } else if ("location" in symbol) {
+      flatSymbols.push({
+        name: symbol.name,
+        detail: "",
+        kind: symbol.kind,
+        range: symbol.location.range,
+        selectionRange: symbol.location.range,
+        containers: symbol.containerName ? [symbol.containerName] : [],
+      });
+    }
+  };
+  symbols.forEach((symbol) => addSymbol(symbol, []));
+
+  return flatSymbols.sort((a, b) => a.range.start.compareTo(b.range.start));
+}
+
+/**
+ * Finds a symbol by name, preferring an exact match, then any case, then a prefix and lastly a substring.
+ * A `.` separated name like `Class.method` also matches the containers.
+ */
+export function findDocumentSymbol(symbols: FlatDocumentSymbol[], name: string): FlatDocumentSymbol | undefined {
+  const lowerName = name.toLowerCase();
+  const qualifiedName = (symbol: FlatDocumentSymbol) => [...symbol.containers, symbol.name].join(".");
+  const matchers: Array<(symbol: FlatDocumentSymbol) => boolean> = [
+    (symbol) => symbol.name === name || qualifiedName(symbol) === name,
+    (symbol) => symbol.name.toLowerCase() === lowerName || qualifiedName(symbol).toLowerCase() === lowerName,
+    (symbol) => symbol.name.toLowerCase().startsWith(lowerName),
+    (symbol) => symbol.name.toLowerCase().includes(lowerName),
+  ];
+  for (const matcher of matchers) {
+    const symbol = symbols.find(matcher);
+    if (symbol) {
+      return symbol;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The codicon of a symbol kind, e.g. `symbol-enum-member` for {@link vscode.SymbolKind.EnumMember}
+ */
+export function getSymbolIcon(kind: vscode.SymbolKind): vscode.ThemeIcon {
+  const kindName = vscode.SymbolKind[kind] ?? "Misc";
+  return new vscode.ThemeIcon(`symbol-${kindName.replace(/([a-z])([A-Z])/g, "$1-$2").toLowerCase()}`);
+}
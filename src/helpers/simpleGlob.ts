@@ -122,12 +122,21 @@ function globToRegExp(pattern: string): RegExp {
  * @returns true if the path matches the pattern
  */
 export function simpleMatch(path: string, pattern: string): boolean {
+  return compileGlob(pattern)(path);
+}
+
+/**
+ * Compiles a glob pattern once, for patterns that are matched against many paths
+ * @param pattern The glob pattern
+ * @returns A function that tests whether a path matches the pattern
+ */
+export function compileGlob(pattern: string): (path: string) => boolean {
   try {
     const regex = globToRegExp(pattern);
-    return regex.test(path);
+    return (path) => regex.test(path);
   } catch (error) {
     // If regex compilation fails, fall back to literal string comparison
-    return path === pattern;
+    return (path) => path === pattern;
   }
 }
 
@@ -0,0 +1,52 @@
+import * as vscode from "vscode";
+import { parse } from "jsonc-parser";
+
+export type UserDataFile = { uri: vscode.Uri; content: any } | { problem: string };
+
+async function readJsonc(uri: vscode.Uri): Promise<{ uri: vscode.Uri; content: any } | undefined> {
+  try {
+    const content = await vscode.workspace.fs.readFile(uri);
+    return { uri, content: parse(Buffer.from(content).toString("utf8")) };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Finds a file of the active user profile, like settings.json or keybindings.json.
+ * The default profile keeps them in the User folder next to globalStorage, other profiles in User/profiles/<id>.
+ * VS Code has no api for the active profile, so once other profiles exist the file is told apart by its content.
+ * @param isActiveProfileFile Recognizes the parsed file of the active profile, e.g. by a setting value VS Code reports
+ * @returns The parsed file, or why it could not be found
+ */
+export async function findUserDataFile(
+  context: vscode.ExtensionContext,
+  fileName: string,
+  isActiveProfileFile?: (content: any) => boolean
+): Promise<UserDataFile> {
+  const userFolder = vscode.Uri.joinPath(context.globalStorageUri, "..", "..");
+  const candidates = [vscode.Uri.joinPath(userFolder, fileName)];
+  try {
+    const profilesFolder = vscode.Uri.joinPath(userFolder, "profiles");
+    for (const [name, type] of await vscode.workspace.fs.readDirectory(profilesFolder)) {
+      if (type & vscode.FileType.Directory) {
+        candidates.push(vscode.Uri.joinPath(profilesFolder, name, fileName));
+      }
+    }
+  } catch {
+    // No other profiles
+  }
+
+  const files = (await Promise.all(candidates.map(readJsonc))).filter((file) => file !== undefined);
+  if (candidates.length === 1) {
+    return files[0] ?? { problem: `${candidates[0].fsPath} does not exist` };
+  }
+
+  const matches = isActiveProfileFile ? files.filter((file) => isActiveProfileFile(file.content)) : [];
+  if (matches.length === 1) {
+    return matches[0];
+  }
+  return {
+    problem: `${candidates.length - 1} other profiles exist and the ${fileName} of the active profile can't be told apart from theirs`,
+  };
+}
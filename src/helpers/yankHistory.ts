@@ -0,0 +1,39 @@
+import * as vscode from "vscode";
+
+export interface YankEvent {
+  text: string;
+  // Whether the text was copied or removed from the document
+  kind: "yank" | "delete";
+  // The module that copied or removed the text, e.g. `motions`
+  source: string;
+  // Where the text was in the document, when the module knows it
+  origin?: YankOrigin;
+}
+
+export interface YankOrigin {
+  document: vscode.TextDocument;
+  range: vscode.Range;
+  // Whole lines were copied or deleted
+  linewise?: boolean;
+}
+
+const yankEmitter = new vscode.EventEmitter<YankEvent>();
+
+/**
+ * Fires whenever a module copies or deletes text, the registers module keeps a history of it.
+ */
+export const onDidYank = yankEmitter.event;
+
+/**
+ * Reports text that was copied or deleted by a module.
+ * @param text The copied or deleted text, empty text is ignored.
+ * @param kind Whether the text was copied or removed from the document.
+ * @param source The module reporting the text.
+ * @param origin Where the text was in the document.
+ */
+export function recordYank(text: string, kind: YankEvent["kind"], source: string, origin?: YankOrigin): void {
+  if (!text) {
+    return;
+  }
+  yankEmitter.fire({ text, kind, source, origin });
+}
@@ -1,28 +1,79 @@
 import * as vscode from "vscode";
 import { printChannelOutput } from "../extension";
 
-// How often to update the status bar text with the remaining time
-const updateInterval = 50; // Update every 'updateInterval' ms (Do not go under 5ms)
+// How often the shared ticker updates the remaining time of the counting down contexts
+const updateInterval = 50; // Update every 'updateInterval' ms
+
+// One interval serves every context that is counting down
+const tickingContexts: Set<ActionContext> = new Set();
+let tickerId: NodeJS.Timeout | undefined;
+let lastTick = 0;
+// How many callers currently hold the countdowns still
+let suspendCount = 0;
+
+function startTicking(context: ActionContext) {
+  tickingContexts.add(context);
+  if (!tickerId) {
+    lastTick = Date.now();
+    tickerId = setInterval(tick, updateInterval);
+  }
+}
+
+function stopTicking(context: ActionContext) {
+  tickingContexts.delete(context);
+  if (tickingContexts.size === 0 && tickerId) {
+    clearInterval(tickerId);
+    tickerId = undefined;
+  }
+}
+
+function tick() {
+  const now = Date.now();
+  const elapsedMs = now - lastTick;
+  lastTick = now;
+
+  // Contexts can deactivate during the tick, iterate over a copy
+  [...tickingContexts].forEach((context) => context.tick(now, suspendCount > 0 ? elapsedMs : 0));
+}
+
+/**
+ * Holds every countdown still until the returned disposable is disposed,
+ * e.g. while a QuickPick or an input box opened from a layer is waiting on the user.
+ */
+export function suspendCountdowns(): vscode.Disposable {
+  suspendCount++;
+  let released = false;
+  return new vscode.Disposable(() => {
+    if (!released) {
+      released = true;
+      suspendCount--;
+    }
+  });
+}
 
 export class ActionContext {
   private contextId: string;
-  private statusBarItem?: vscode.StatusBarItem;
   private isActive: boolean = false;
-  private repeatTimeoutIds: NodeJS.Timeout[] = [];
   private timeoutSeconds: number = 3;
+  // When the running countdown ends, as a Date.now() timestamp
+  private deadline: number = 0;
+  // The time that was left when the countdown was paused
+  private pausedRemainingMs?: number;
 
   /**
    * Initializes a new instance of the ActionContext class.
    * @param contextId The unique identifier for this action context.
-   * @param timeoutSeconds The number of seconds before the action context is deactivated.
+   * @param timeoutSeconds The number of seconds before the action context is deactivated, 0 to never time out.
    * @param onDeactivate A callback function that is called when the action context is deactivated.
    * @param onActivate An optional callback function that is called when the action context is activated.
+   * @param onUpdate An optional callback function that is called whenever the remaining time changes.
    */
   constructor(
     contextId: string,
     timeoutSeconds: number,
     private onDeactivate: (contextId: string) => void,
-    private onActivate?: (contextId: string) => void
+    private onActivate?: (contextId: string) => void,
+    private onUpdate?: (contextId: string) => void
   ) {
     printChannelOutput(`  Creating context: ${contextId} timeout: ${timeoutSeconds}`, false);
     this.contextId = contextId;
@@ -37,7 +88,56 @@ export class ActionContext {
   }
 
   /**
-   * Activates the action context, creating and showing a status bar item, executing the provided command, and starting the repeat timeout.
+   * @returns The seconds left before the action context is deactivated, or undefined if it never times out.
+   */
+  public getRemainingSeconds(): number | undefined {
+    if (this.timeoutSeconds <= 0) {
+      return undefined;
+    }
+    const remainingMs = this.pausedRemainingMs ?? this.deadline - Date.now();
+    return Math.max(0, remainingMs) / 1000;
+  }
+
+  /**
+   * Stops the countdown, keeping the remaining time until the action context is resumed.
+   */
+  public pause() {
+    if (!this.isActive || this.pausedRemainingMs !== undefined || this.timeoutSeconds <= 0) {
+      return;
+    }
+
+    this.pausedRemainingMs = Math.max(0, this.deadline - Date.now());
+    stopTicking(this);
+  }
+
+  /**
+   * Continues a paused countdown from the time that was left when it was paused.
+   */
+  public resume() {
+    if (!this.isActive || this.pausedRemainingMs === undefined) {
+      return;
+    }
+
+    this.startCountdown(this.pausedRemainingMs);
+  }
+
+  /**
+   * Called by the shared ticker while the action context is counting down.
+   * @param now - The time of the tick, as a Date.now() timestamp.
+   * @param suspendedMs - How long the countdowns were held still since the previous tick.
+   */
+  public tick(now: number, suspendedMs: number) {
+    this.deadline += suspendedMs;
+    if (now >= this.deadline) {
+      this.deactivate();
+      return;
+    }
+    this.onUpdate?.(this.contextId);
+  }
+
+  /**
+   * Activates the action context, executing the provided command and starting the countdown.
+   * Activating an already active context extends its remaining time to at least the full timeout.
    * @param command - The command to execute when the action context is activated.
    * @param timeoutSeconds - Optional timeout in seconds to override the default timeout for this activation.
    */
@@ -48,29 +148,20 @@ export class ActionContext {
       printChannelOutput(`  Updating timeout for context: ${this.contextId} to ${timeoutSeconds}s`, false);
     }
 
-    if (this.isActive) {
-      // Clear existing timeouts and restart with potentially new timeout
-      this.startRepeatTimeout();
-    } else {
-      // Create and show the status bar item
-      this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 10000);
-      this.statusBarItem.text = `░ ${this.contextId} ░`;
-      this.statusBarItem.show();
-    }
     if (this.isActive === false) {
       printChannelOutput(`  Activating context: ${this.contextId}`, false);
       vscode.commands.executeCommand("setContext", this.contextId, true);
+      this.isActive = true;
+      this.startCountdown();
+    } else {
+      this.extendCountdown();
     }
-    this.isActive = true;
 
     // Execute the command
     if (command && command.length > 0) {
       vscode.commands.executeCommand(command);
     }
 
-    // Start the repeat timeout
-    this.startRepeatTimeout();
-
     // Update the global state if necessary
     // You can manage global state outside this class if needed
     if (this.onActivate) {
@@ -79,25 +170,18 @@ export class ActionContext {
   }
 
   /**
-   * Disposes of the status bar item and clears any active timeouts associated with the action context.
+   * Stops the countdown of the action context.
    *
    * This method is called when the action context is being deactivated or destroyed. It ensures that
-   * any UI elements and scheduled tasks related to the action context are properly cleaned up.
+   * the shared ticker no longer updates the action context.
    */
   destruct() {
-    // Dispose the status bar item
-    if (this.statusBarItem) {
-      this.statusBarItem.dispose();
-      this.statusBarItem = undefined;
-    }
-
-    // Clear timeouts
-    this.repeatTimeoutIds.forEach((id) => clearTimeout(id));
-    this.repeatTimeoutIds = [];
+    stopTicking(this);
+    this.pausedRemainingMs = undefined;
   }
 
   /**
-   * Deactivates the action context, hiding the status bar item and setting the context to false.
+   * Deactivates the action context, setting the context to false.
    */
   deactivate() {
     if (!this.isActive) return;
@@ -115,32 +199,40 @@ export class ActionContext {
   }
 
   /**
-   * Starts the repeat timeout, updating the status bar countdown and scheduling the deactivation of the action context.
+   * Starts the countdown, after which the action context is deactivated.
+   * A timeout of 0 (or less) means the context never times out and stays active until it is deactivated.
+   * @param durationMs - How long the countdown runs, defaults to the full timeout.
    */
-  private startRepeatTimeout() {
-    // Clear existing timeouts
-    this.repeatTimeoutIds.forEach((id) => clearTimeout(id));
-    this.repeatTimeoutIds = [];
-
-    const totalUpdates = (this.timeoutSeconds * 1000) / updateInterval;
-
-    // Update the status bar countdown
-    for (let i = 1; i <= totalUpdates; i++) {
-      this.repeatTimeoutIds.push(
-        setTimeout(() => {
-          if (this.statusBarItem) {
-            const remainingSeconds = (((totalUpdates - i) * updateInterval) / 1000).toFixed(1);
-            this.statusBarItem.text = `░ ${this.contextId} ░ ${remainingSeconds}`;
-          }
-        }, i * updateInterval - 5)
-      );
+  private startCountdown(durationMs: number = this.timeoutSeconds * 1000) {
+    this.pausedRemainingMs = undefined;
+
+    if (this.timeoutSeconds <= 0) {
+      stopTicking(this);
+    } else {
+      this.deadline = Date.now() + durationMs;
+      startTicking(this);
     }
+    this.onUpdate?.(this.contextId);
+  }
 
-    // Set the main timeout to deactivate the context
-    this.repeatTimeoutIds.push(
-      setTimeout(() => {
-        this.deactivate();
-      }, this.timeoutSeconds * 1000)
-    );
+  /**
+   * Makes sure at least the full timeout is left, without shortening a longer remaining time.
+   */
+  private extendCountdown() {
+    const timeoutMs = this.timeoutSeconds * 1000;
+
+    if (this.timeoutSeconds <= 0) {
+      // The context became one that never times out
+      this.startCountdown();
+    } else if (this.pausedRemainingMs !== undefined) {
+      this.pausedRemainingMs = Math.max(this.pausedRemainingMs, timeoutMs);
+      this.onUpdate?.(this.contextId);
+    } else if (tickingContexts.has(this)) {
+      this.deadline = Math.max(this.deadline, Date.now() + timeoutMs);
+      this.onUpdate?.(this.contextId);
+    } else {
+      // The context never timed out until now
+      this.startCountdown();
+    }
   }
 }
@@ -0,0 +1,36 @@
+import * as vscode from "vscode";
+
+/**
+ * A single status bar item that shows the layer stack, e.g. `░ hyper › git › stage ░ 3.2`.
+ */
+export class LayerBreadcrumb {
+  private statusBarItem?: vscode.StatusBarItem;
+
+  /**
+   * Renders the layer stack, hiding the status bar item when the stack is empty.
+   * @param layerNames The active layers, from the bottom to the top of the stack.
+   * @param remainingSeconds The countdown of the top layer, undefined if it never times out.
+   * @param backgroundColor The background of the status bar item, from the style of the top layer.
+   */
+  render(layerNames: string[], remainingSeconds: number | undefined, backgroundColor?: vscode.ThemeColor) {
+    if (layerNames.length === 0) {
+      this.dispose();
+      return;
+    }
+
+    if (!this.statusBarItem) {
+      this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 10000);
+      this.statusBarItem.show();
+    }
+
+    const countdown = remainingSeconds === undefined ? "" : ` ${remainingSeconds.toFixed(1)}`;
+    this.statusBarItem.text = `░ ${layerNames.join(" › ")} ░${countdown}`;
+    this.statusBarItem.tooltip = `Hyper layers: ${layerNames.join(" › ")}`;
+    this.statusBarItem.backgroundColor = backgroundColor;
+  }
+
+  dispose() {
+    this.statusBarItem?.dispose();
+    this.statusBarItem = undefined;
+  }
+}
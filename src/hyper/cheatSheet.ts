@@ -0,0 +1,218 @@
+import * as vscode from "vscode";
+import { suspendCountdowns } from "./action";
+import { printHyperOutput } from "./main";
+import { HyperCommand, HyperKeyAction, HyperLayerActions } from "./types";
+import { findUserDataFile } from "../helpers/userDataFiles";
+
+interface KeybindingRule {
+  key?: string;
+  mac?: string;
+  linux?: string;
+  win?: string;
+  command?: string;
+  args?: any;
+  when?: string;
+}
+
+interface CheatSheetItem extends vscode.QuickPickItem {
+  action?: HyperKeyAction;
+}
+
+export interface LayerCheatSheetProps {
+  // Returns the key actions declared for the layer
+  getActions(layerName: string): HyperLayerActions | undefined;
+  // Returns whether the layer is still the active top layer
+  isShown(layerName: string): boolean;
+  // Called when an entry is picked
+  onSelect(layerName: string, action: HyperKeyAction): void;
+}
+
+// Used to find the keybindings.json of the active user profile
+let extensionContext: vscode.ExtensionContext | undefined;
+
+export function initializeCheatSheet(context: vscode.ExtensionContext) {
+  extensionContext = context;
+}
+
+function describeCommand(hyperCommand: HyperCommand): string {
+  return typeof hyperCommand === "string" ? hyperCommand : hyperCommand.command;
+}
+
+function describeAction(action: HyperKeyAction): string {
+  return Array.isArray(action) ? action.map(describeCommand).join(", ") : describeCommand(action);
+}
+
+function getPlatformKey(rule: KeybindingRule): string | undefined {
+  switch (process.platform) {
+    case "darwin":
+      return rule.mac ?? rule.key;
+    case "win32":
+      return rule.win ?? rule.key;
+    default:
+      return rule.linux ?? rule.key;
+  }
+}
+
+/**
+ * Whether the when clause requires the layer context, a negated `!layer` does not count.
+ */
+function referencesLayer(when: string, layerName: string): boolean {
+  const escapedName = layerName.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(?<![\\w.!-])${escapedName}(?![\\w.-])`).test(when);
+}
+
+/**
+ * Reads the keybindings.json of the active profile.
+ * Keybindings carry no value VS Code reports, so with several profiles the file of the active one is not known.
+ * @returns The rules, or why the user keybindings could not be read
+ */
+async function readUserKeybindings(): Promise<{ rules: KeybindingRule[]; problem?: string }> {
+  if (!extensionContext) {
+    return { rules: [] };
+  }
+
+  const file = await findUserDataFile(extensionContext, "keybindings.json");
+  if ("problem" in file) {
+    printHyperOutput(`  Could not read the user keybindings: ${file.problem}`);
+    return { rules: [], problem: file.problem };
+  }
+  return { rules: Array.isArray(file.content) ? file.content : [] };
+}
+
+/**
+ * Collects the keybindings of the user and of every extension that apply inside the layer.
+ * @returns The rules, and why the user keybindings are missing from them
+ */
+async function getLayerKeybindings(layerName: string): Promise<{ rules: KeybindingRule[]; problem?: string }> {
+  const contributedRules: KeybindingRule[] = vscode.extensions.all.flatMap((extension) => {
+    const keybindings = extension.packageJSON?.contributes?.keybindings;
+    return Array.isArray(keybindings) ? keybindings : [];
+  });
+  const { rules: userRules, problem } = await readUserKeybindings();
+
+  // Rules starting with '-' remove a keybinding instead of adding one
+  const rules = [...userRules, ...contributedRules].filter(
+    (rule) =>
+      rule.command &&
+      !rule.command.startsWith("-") &&
+      getPlatformKey(rule) &&
+      rule.when &&
+      referencesLayer(rule.when, layerName)
+  );
+  return { rules, problem };
+}
+
+/**
+ * A which-key style QuickPick listing what can be done in the active layer.
+ * It opens once the layer has been idle for the configured delay, and closes with the layer.
+ * The layers do not count down while it is open.
+ */
+export class LayerCheatSheet {
+  private delayTimeout?: NodeJS.Timeout;
+  private quickPick?: vscode.QuickPick<CheatSheetItem>;
+  private quickPickLayer?: string;
+  // Holds the layer countdowns still while the cheat-sheet is open
+  private suspension?: vscode.Disposable;
+
+  constructor(private readonly props: LayerCheatSheetProps) {}
+
+  /**
+   * (Re)starts the delay before the cheat-sheet of the layer is shown.
+   * @param layerName The layer that was activated.
+   */
+  schedule(layerName: string) {
+    clearTimeout(this.delayTimeout);
+    this.delayTimeout = undefined;
+
+    const config = vscode.workspace.getConfiguration("vstoys.hyper.cheatSheet");
+    if (!config.get<boolean>("enabled", false) || this.quickPickLayer === layerName) {
+      return;
+    }
+
+    this.delayTimeout = setTimeout(
+      () => {
+        this.delayTimeout = undefined;
+        if (this.props.isShown(layerName)) {
+          this.show(layerName);
+        }
+      },
+      config.get<number>("delay", 1000)
+    );
+  }
+
+  /**
+   * Closes the cheat-sheet and cancels a pending one.
+   * @param layerName Only close it if it belongs to this layer.
+   */
+  close(layerName?: string) {
+    if (layerName !== undefined && layerName !== this.quickPickLayer) {
+      return;
+    }
+
+    clearTimeout(this.delayTimeout);
+    this.delayTimeout = undefined;
+    this.quickPick?.dispose();
+    this.quickPick = undefined;
+    this.quickPickLayer = undefined;
+    this.suspension?.dispose();
+    this.suspension = undefined;
+  }
+
+  private async show(layerName: string) {
+    const items: CheatSheetItem[] = [];
+
+    const actions = Object.entries(this.props.getActions(layerName) ?? {});
+    if (actions.length > 0) {
+      items.push({ label: "Layer actions", kind: vscode.QuickPickItemKind.Separator });
+      actions.forEach(([key, action]) => {
+        items.push({ label: key, description: describeAction(action), action });
+      });
+    }
+
+    const keybindings = await getLayerKeybindings(layerName);
+    if (keybindings.rules.length > 0) {
+      items.push({ label: "Keybindings", kind: vscode.QuickPickItemKind.Separator });
+      keybindings.rules.forEach((rule) => {
+        const action: HyperCommand =
+          rule.args !== undefined ? { command: rule.command!, args: rule.args } : rule.command!;
+        items.push({ label: getPlatformKey(rule)!, description: rule.command, detail: rule.when, action });
+      });
+    }
+
+    // The layer may have ended while the keybindings were read
+    if (items.length === 0 || !this.props.isShown(layerName)) {
+      return;
+    }
+
+    if (keybindings.problem) {
+      items.push({ label: "$(warning) User keybindings are not shown", detail: keybindings.problem });
+    }
+
+    this.close();
+    printHyperOutput(`  Showing cheat-sheet for layer: ${layerName}`);
+
+    const quickPick = vscode.window.createQuickPick<CheatSheetItem>();
+    quickPick.title = `Hyper: ${layerName}`;
+    quickPick.placeholder = "Pick a binding to run it";
+    quickPick.matchOnDescription = true;
+    quickPick.items = items;
+
+    quickPick.onDidAccept(() => {
+      const action = quickPick.selectedItems[0]?.action;
+      this.close();
+      if (action !== undefined) {
+        this.props.onSelect(layerName, action);
+      }
+    });
+    quickPick.onDidHide(() => {
+      if (this.quickPick === quickPick) {
+        this.close();
+      }
+    });
+
+    this.quickPick = quickPick;
+    this.quickPickLayer = layerName;
+    this.suspension = suspendCountdowns();
+    quickPick.show();
+  }
+}
@@ -0,0 +1,101 @@
+import * as vscode from "vscode";
+import { suspendCountdowns } from "./action";
+import { printHyperOutput } from "./main";
+import { HyperCommand, HyperKeyAction } from "./types";
+import { registerTypeHandler } from "../helpers/commandRecorder";
+
+/**
+ * Executes one or more hyper commands in order, stopping at the first one that fails.
+ * @param action The command, or list of commands, to execute.
+ */
+export async function executeHyperCommands(action: HyperKeyAction): Promise<void> {
+  const hyperCommands: HyperCommand[] = Array.isArray(action) ? action : [action];
+  for (const hyperCommand of hyperCommands) {
+    if (typeof hyperCommand === "string") {
+      await vscode.commands.executeCommand(hyperCommand);
+    } else if (hyperCommand.args !== undefined) {
+      await vscode.commands.executeCommand(hyperCommand.command, hyperCommand.args);
+    } else {
+      await vscode.commands.executeCommand(hyperCommand.command);
+    }
+  }
+}
+
+export interface LayerKeyInputProps {
+  // Returns the action bound to the typed key in the active layers, if any
+  resolveAction(key: string): { layerName: string; action: HyperKeyAction } | undefined;
+  // Called after a bound action has been executed
+  onAction(layerName: string, key: string): void;
+}
+
+/**
+ * Intercepts the `type` command while a layer with declared actions is active,
+ * and dispatches the typed keys to the commands bound in the layer.
+ * Keys that are not bound in any active layer are typed as usual.
+ */
+export class LayerKeyInput {
+  private typeDisposable?: vscode.Disposable;
+
+  constructor(private readonly props: LayerKeyInputProps) {}
+
+  /**
+   * @returns Whether the `type` command is currently intercepted.
+   */
+  public isAcquired(): boolean {
+    return this.typeDisposable !== undefined;
+  }
+
+  /**
+   * Starts intercepting the `type` command.
+   * Another input (motions, jump, from-till...) may already own it, in that case typing is left alone.
+   */
+  public acquire = (): void => {
+    if (this.typeDisposable) {
+      return;
+    }
+
+    try {
+      this.typeDisposable = registerTypeHandler(this._onInput);
+      printHyperOutput("  Intercepting typed keys for layer actions");
+    } catch (error) {
+      printHyperOutput(`  Could not intercept typed keys, another input is active: ${error}`);
+    }
+  };
+
+  /**
+   * Stops intercepting the `type` command.
+   */
+  public release = (): void => {
+    if (!this.typeDisposable) {
+      return;
+    }
+
+    this.typeDisposable.dispose();
+    this.typeDisposable = undefined;
+    printHyperOutput("  Stopped intercepting typed keys");
+  };
+
+  private readonly _onInput = async (args: { text: string }) => {
+    const resolved = this.props.resolveAction(args.text);
+    if (!resolved) {
+      await vscode.commands.executeCommand("default:type", args);
+      return;
+    }
+
+    printHyperOutput(`Layer ${resolved.layerName}: running action for key '${args.text}'`);
+
+    // Release typing while the action runs, so commands that read input themselves can take over.
+    // The layers do not count down while it runs, it may be waiting on a QuickPick or an input box.
+    this.release();
+    const suspension = suspendCountdowns();
+    try {
+      await executeHyperCommands(resolved.action);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Hyper layer ${resolved.layerName}: action for '${args.text}' failed: ${error}`);
+      console.error(`[vstoys.hyper] Action for '${args.text}' failed`, error);
+    } finally {
+      suspension.dispose();
+    }
+    this.props.onAction(resolved.layerName, args.text);
+  };
+}
@@ -1,14 +1,147 @@
 // The module 'vscode' contains the VS Code extensibility API
 // Import the module and reference it with the alias vscode in your code below
 import * as vscode from "vscode";
-import { ActionContext } from "./action";
+import { ActionContext, suspendCountdowns } from "./action";
 import { printHyperOutput } from "./main";
-import { LayerActivateInput, LayerDeactivateInput } from "./types";
+import {
+  HyperKeyAction,
+  HyperLayerActions,
+  HyperLayerStyle,
+  HyperLayerType,
+  LayerActivateInput,
+  LayerDeactivateInput,
+} from "./types";
+import { executeHyperCommands, LayerKeyInput } from "./keyActions";
+import { LayerBreadcrumb } from "./breadcrumb";
+import { LayerCheatSheet } from "./cheatSheet";
+import { getStatusBarBackground, LayerStyler } from "./style";
 
 let anyContextActive = false;
 const activeContexts: Map<string, ActionContext> = new Map();
+// The active layers from the bottom to the top, only the top layer counts down
+const layerStack: string[] = [];
+const breadcrumb = new LayerBreadcrumb();
+// The key actions declared for each layer that has been activated
+const layerActions: Map<string, HyperLayerActions> = new Map();
+// The type each layer was last activated with
+const layerTypes: Map<string, HyperLayerType> = new Map();
+// The onExit commands of the active layers, as declared when they were entered
+const layerExitHooks: Map<string, HyperKeyAction> = new Map();
+// The style declared for each layer that has been activated
+const layerStyles: Map<string, HyperLayerStyle> = new Map();
+const layerStyler = new LayerStyler();
 const globalContextId = "vstoys.hyper.global";
 const countContextId = "hyper.count";
+
+const layerKeyInput = new LayerKeyInput({
+  resolveAction: (key) => {
+    // The layers at the top of the stack take precedence
+    const layerNames = [...layerStack].reverse();
+    for (const layerName of layerNames) {
+      const context = activeContexts.get(layerName);
+      const action = layerActions.get(layerName)?.[key];
+      if (context && context.IsActive() && action !== undefined) {
+        return { layerName, action };
+      }
+    }
+    return undefined;
+  },
+  onAction: onLayerAction,
+});
+
+const cheatSheet = new LayerCheatSheet({
+  getActions: (layerName) => layerActions.get(layerName),
+  isShown: (layerName) => getTopLayer() === layerName && activeContexts.get(layerName)?.IsActive() === true,
+  onSelect: (layerName, action) => {
+    const suspension = suspendCountdowns();
+    executeHyperCommands(action)
+      .catch((error) => {
+        vscode.window.showErrorMessage(`Hyper layer ${layerName}: ${error}`);
+      })
+      .finally(() => {
+        suspension.dispose();
+        onLayerAction(layerName);
+      });
+  },
+});
+
+/**
+ * Called after a command has been run in the layer, from a key action or the cheat-sheet.
+ */
+function onLayerAction(layerName: string) {
+  const context = activeContexts.get(layerName);
+  if (context && context.IsActive()) {
+    if (layerTypes.get(layerName) === "oneShot") {
+      // A one-shot layer ends after the first command run in it
+      context.deactivate();
+    } else {
+      // Running an action counts as activity in the layer, restart its timeout
+      context.activate(undefined);
+      if (getTopLayer() !== layerName) {
+        context.pause();
+      }
+    }
+  }
+  updateLayerKeyInput();
+}
+
+/**
+ * Called every time a layer is activated or refreshed.
+ */
+function onLayerActivated(contextId: string) {
+  activateGlobalContext();
+  cheatSheet.schedule(contextId);
+}
+
+/**
+ * Intercepts typed keys while any active layer declares actions, and releases them otherwise.
+ */
+function updateLayerKeyInput() {
+  const hasActions = Array.from(activeContexts.entries()).some(
+    ([layerName, context]) => context.IsActive() && Object.keys(layerActions.get(layerName) ?? {}).length > 0
+  );
+
+  if (hasActions) {
+    layerKeyInput.acquire();
+  } else {
+    layerKeyInput.release();
+  }
+}
+
+/**
+ * Runs the onEnter or onExit commands of a layer.
+ */
+function runLayerHook(layerName: string, hookName: "onEnter" | "onExit", action: HyperKeyAction | undefined) {
+  if (action === undefined) {
+    return;
+  }
+
+  printHyperOutput(`  Running ${hookName} of layer: ${layerName}`);
+  executeHyperCommands(action).catch((error) => {
+    vscode.window.showErrorMessage(`Hyper layer ${layerName}: ${hookName} failed: ${error}`);
+    console.error(`[vstoys.hyper] ${hookName} of layer ${layerName} failed`, error);
+  });
+}
+
+function getTopLayer(): string | undefined {
+  return layerStack[layerStack.length - 1];
+}
+
+function updateBreadcrumb() {
+  const topLayer = getTopLayer();
+  const remainingSeconds = topLayer ? activeContexts.get(topLayer)?.getRemainingSeconds() : undefined;
+  const backgroundColor = getStatusBarBackground(topLayer ? layerStyles.get(topLayer) : undefined);
+  breadcrumb.render(layerStack, remainingSeconds, backgroundColor);
+}
+
+/**
+ * The editors take the style of the top layer, and are restored when no layer is left.
+ */
+function updateLayerStyle() {
+  const topLayer = getTopLayer();
+  layerStyler.apply(topLayer ? layerStyles.get(topLayer) : undefined);
+}
+
 function updateCountContext() {
   const activeCount = Array.from(activeContexts.values()).filter((context) => context && context.IsActive()).length;
   vscode.commands.executeCommand("setContext", countContextId, activeCount);
@@ -37,6 +170,25 @@ export function activateGlobalContext() {
 export function deactivateGlobalContext(contextId: string) {
   // Remove the context from our tracking (ActionContext.deactivate() already calls destruct())
   activeContexts.delete(contextId);
+  cheatSheet.close(contextId);
+
+  const exitHook = layerExitHooks.get(contextId);
+  layerExitHooks.delete(contextId);
+  runLayerHook(contextId, "onExit", exitHook);
+
+  // Return to the previous layer when the top layer leaves the stack, picking up its countdown where it stopped
+  const wasTopLayer = getTopLayer() === contextId;
+  const stackIndex = layerStack.indexOf(contextId);
+  if (stackIndex !== -1) {
+    layerStack.splice(stackIndex, 1);
+  }
+  const topLayer = getTopLayer();
+  if (wasTopLayer && topLayer) {
+    printHyperOutput(`  Returning to layer: ${topLayer}`);
+    activeContexts.get(topLayer)?.resume();
+  }
+  updateLayerStyle();
+  updateBreadcrumb();
 
   // Check if any context is still active and deactivate global context if not
   anyContextActive = false;
@@ -53,6 +205,7 @@ export function deactivateGlobalContext(contextId: string) {
   }
 
   updateCountContext();
+  updateLayerKeyInput();
 }
 
 // Layer management functions
@@ -72,15 +225,51 @@ export function activateLayer(input: LayerActivateInput) {
     return;
   }
 
+  // Sticky layers never time out
+  const timeoutSeconds = input.layerType === "sticky" ? 0 : input.timeout || 6; // Default timeout from config
+
   // Create or get existing context for this layer
   let context = activeContexts.get(input.layerName);
   if (!context) {
-    const timeoutSeconds = input.timeout || 6; // Default timeout from config
     // Create the context directly here
-    context = new ActionContext(input.layerName, timeoutSeconds, deactivateGlobalContext, activateGlobalContext);
+    context = new ActionContext(
+      input.layerName,
+      timeoutSeconds,
+      deactivateGlobalContext,
+      onLayerActivated,
+      updateBreadcrumb
+    );
     activeContexts.set(input.layerName, context);
   }
 
+  if (input.actions) {
+    layerActions.set(input.layerName, input.actions);
+  } else {
+    layerActions.delete(input.layerName);
+  }
+  layerTypes.set(input.layerName, input.layerType);
+  if (input.style) {
+    layerStyles.set(input.layerName, input.style);
+  } else {
+    layerStyles.delete(input.layerName);
+  }
+
+  // A command sent to an active one-shot layer is the command run in it, the layer ends once it completes
+  if (input.layerType === "oneShot" && input.command && context.IsActive()) {
+    const oneShotContext = context;
+    printHyperOutput(`One-shot layer: running ${input.command} and deactivating ${input.layerName}`, false);
+    Promise.resolve(vscode.commands.executeCommand(input.command))
+      .catch((error) => {
+        vscode.window.showErrorMessage(`Hyper layer ${input.layerName}: ${error}`);
+      })
+      .finally(() => {
+        if (oneShotContext.IsActive()) {
+          oneShotContext.deactivate();
+        }
+      });
+    return;
+  }
+
   // For switch layers, deactivate all other layers first
   if (input.layerType === "switch") {
     printHyperOutput("Switch layer: deactivating all other contexts", false);
@@ -91,8 +280,78 @@ export function activateLayer(input: LayerActivateInput) {
     });
   }
 
-  const timeoutSeconds = input.timeout || 6; // Default timeout from config
+  // Push newly activated layers on top of the stack, the previous top layer waits with its countdown paused
+  if (!layerStack.includes(input.layerName)) {
+    const previousTopLayer = getTopLayer();
+    if (previousTopLayer) {
+      activeContexts.get(previousTopLayer)?.pause();
+    }
+    layerStack.push(input.layerName);
+  }
+
+  const isEntering = !context.IsActive();
   context.activate(input.command, timeoutSeconds);
+
+  if (isEntering) {
+    if (input.onExit !== undefined) {
+      layerExitHooks.set(input.layerName, input.onExit);
+    }
+    runLayerHook(input.layerName, "onEnter", input.onEnter);
+  }
+
+  // Re-activating a layer below the top keeps its place in the stack, and it stays paused until it is on top again
+  if (getTopLayer() !== input.layerName) {
+    context.pause();
+  }
+
+  updateLayerStyle();
+  updateBreadcrumb();
+  updateCountContext();
+  updateLayerKeyInput();
+}
+
+/**
+ * Runs commands as a key action of a layer, for keybindings with a `when` clause on the layer.
+ * A one-shot layer ends once they complete, other layers restart their timeout.
+ * @param args The command, `{ command, args }` or a list of them, and the layer, the top layer by default.
+ */
+export async function runInLayer(args: { layerName?: string; command?: HyperKeyAction } | undefined): Promise<void> {
+  console.log("[vstoys.hyper] RunInLayer command executed", args);
+
+  if (args?.command === undefined) {
+    vscode.window.showErrorMessage("Hyper: Run in Layer needs a command to run");
+    return;
+  }
+
+  const layerName = args.layerName ?? getTopLayer();
+  printHyperOutput(`Running ${JSON.stringify(args.command)} in layer: ${layerName ?? "(none)"}`, false);
+  const suspension = suspendCountdowns();
+  try {
+    await executeHyperCommands(args.command);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Hyper layer ${layerName}: ${error}`);
+  } finally {
+    suspension.dispose();
+    if (layerName) {
+      onLayerAction(layerName);
+    }
+  }
+}
+
+/**
+ * Deactivates the top layer of the stack, returning to the previous layer.
+ */
+export function popLayer(args: any) {
+  console.log("[vstoys.hyper] PopLayer command executed", args);
+
+  const topLayer = getTopLayer();
+  if (!topLayer) {
+    printHyperOutput("No layer to pop", false);
+    return;
+  }
+
+  printHyperOutput(`Popping layer: ${topLayer}`, false);
+  activeContexts.get(topLayer)?.deactivate();
   updateCountContext();
 }
 
@@ -2,8 +2,10 @@
 // Import the module and reference it with the alias vscode in your code below
 import * as vscode from "vscode";
 import { createOutputChannel } from "../extension";
-import { startConfigListeners } from "./settings";
-import { deactivateAllContexts } from "./layer";
+import { startConfigListeners, unregisterAllLayers } from "./settings";
+import { deactivateAllContexts, popLayer, runInLayer } from "./layer";
+import { initializeCheatSheet } from "./cheatSheet";
+import { registerRecordedCommand } from "../helpers/commandRecorder";
 
 /**
  * Prints the given content on the output channel.
@@ -21,15 +23,28 @@ export function activateHyper(name: string, context: vscode.ExtensionContext) {
   vscode.commands.executeCommand("setContext", "hyper.count", 0);
   printHyperOutput("Initialized hyper.count context to 0");
 
+  initializeCheatSheet(context);
   startConfigListeners(context);
 
   // Register the deactivateAll command
   context.subscriptions.push(
-    vscode.commands.registerCommand(
+    registerRecordedCommand(
       "vstoys.hyper.deactivateAll",
       deactivateAllContexts
     )
   );
 
+  // Register the popLayer command
+  context.subscriptions.push(registerRecordedCommand("vstoys.hyper.popLayer", popLayer));
+
+  // Keybindings with a `when` clause on a layer run their command through this, so one-shot layers end after it
+  context.subscriptions.push(registerRecordedCommand("vstoys.hyper.runInLayer", runInLayer));
+
   printHyperOutput(`${name} activated`, false);
-}
\ No newline at end of file
+}
+
+export function deactivateHyper() {
+  // Deactivate every layer so their status bar items and countdown timers are released
+  deactivateAllContexts(undefined);
+  unregisterAllLayers();
+}
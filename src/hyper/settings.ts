@@ -2,32 +2,43 @@
 // Import the module and reference it with the alias vscode in your code below
 import * as vscode from "vscode";
 import { activateLayer, deactivateLayer } from "./layer";
-import { HyperLayer, LayerActivateInput, LayerDeactivateInput } from "./types";
-
+import { printHyperOutput } from "./main";
+import { HyperLayer, HyperLayerType, LayerActivateInput, LayerDeactivateInput } from "./types";
+import { LayerDiagnostics, layerSettings, validateLayerSettings } from "./validation";
+import { registerRecordedCommand } from "../helpers/commandRecorder";
 
 
 const registeredLayerDisposables: vscode.Disposable[] = [];
+let layerDiagnostics: LayerDiagnostics | undefined;
 
-function unregisterAllLayers() {
+export function unregisterAllLayers() {
   registeredLayerDisposables.forEach(disposable => disposable.dispose());
   registeredLayerDisposables.length = 0;
 }
 
-function registerNormalLayer(context: vscode.ExtensionContext, layer: HyperLayer) {
+function registerNormalLayer(
+  context: vscode.ExtensionContext,
+  layer: HyperLayer,
+  layerType: Exclude<HyperLayerType, "switch"> = "normal"
+) {
   // Register activate command
-  const activateDisposable = vscode.commands.registerCommand(`vstoys.hyper.layerActivate.${layer.name}`, (args) => {
+  const activateDisposable = registerRecordedCommand(`vstoys.hyper.layerActivate.${layer.name}`, (args) => {
     console.log(`[vstoys.hyper] ActivateLayer command executed`, args);
     const layerInput: LayerActivateInput = {
       layerName: layer.name,
-      layerType: "normal",
+      layerType: layerType,
       timeout: args?.timeout || layer.timeout || 6,
-      command: args?.command
+      command: args?.command,
+      actions: layer.actions,
+      onEnter: layer.onEnter,
+      onExit: layer.onExit,
+      style: layer.style
     };
     activateLayer(layerInput);
   });
 
   // Register deactivate command
-  const deactivateDisposable = vscode.commands.registerCommand(`vstoys.hyper.layerDeactivate.${layer.name}`, (args) => {
+  const deactivateDisposable = registerRecordedCommand(`vstoys.hyper.layerDeactivate.${layer.name}`, (args) => {
     const layerInput: LayerDeactivateInput = {
       layerName: layer.name,
       deactivateAll: args?.deactivateAll || false
@@ -41,19 +52,23 @@ function registerNormalLayer(context: vscode.ExtensionContext, layer: HyperLayer
 
 function registerSwitchLayer(context: vscode.ExtensionContext, layer: HyperLayer) {
   // Register switch command
-  const switchDisposable = vscode.commands.registerCommand(`vstoys.hyper.layerSwitch.${layer.name}`, (args) => {
+  const switchDisposable = registerRecordedCommand(`vstoys.hyper.layerSwitch.${layer.name}`, (args) => {
     console.log(`[vstoys.hyper] SwitchLayer command executed`, args);
     const layerInput: LayerActivateInput = {
       layerName: layer.name,
       layerType: 'switch',
       timeout: args?.timeout || layer.timeout || 6,
-      command: args?.command
+      command: args?.command,
+      actions: layer.actions,
+      onEnter: layer.onEnter,
+      onExit: layer.onExit,
+      style: layer.style
     };
     activateLayer(layerInput);
   });
 
   // Register deactivate command
-  const deactivateDisposable = vscode.commands.registerCommand(`vstoys.hyper.layerDeactivate.${layer.name}`, (args) => {
+  const deactivateDisposable = registerRecordedCommand(`vstoys.hyper.layerDeactivate.${layer.name}`, (args) => {
     const layerInput: LayerDeactivateInput = {
       layerName: layer.name,
       deactivateAll: args?.deactivateAll || false
@@ -65,46 +80,18 @@ function registerSwitchLayer(context: vscode.ExtensionContext, layer: HyperLayer
   context.subscriptions.push(switchDisposable, deactivateDisposable);
 }
 
-function checkForDuplicateNames(normalLayers: HyperLayer[], switchLayers: HyperLayer[]): string[] {
-  const allNames = new Set<string>();
-  const duplicates: string[] = [];
-
-  // Check for duplicates within normalLayers
-  for (const layer of normalLayers) {
-    if (allNames.has(layer.name)) {
-      duplicates.push(layer.name);
-    } else {
-      allNames.add(layer.name);
-    }
-  }
-
-  // Check for duplicates within switchLayers and between normalLayers and switchLayers
-  for (const layer of switchLayers) {
-    if (allNames.has(layer.name)) {
-      duplicates.push(layer.name);
-    } else {
-      allNames.add(layer.name);
-    }
-  }
-
-  return [...new Set(duplicates)]; // Remove duplicate entries in the duplicates array
-}
-
 function registerLayersFromConfig(context: vscode.ExtensionContext) {
   const config = vscode.workspace.getConfiguration("vstoys.hyper");
-  const normalLayers: HyperLayer[] = config.get("normalLayers", []);
-  const switchLayers: HyperLayer[] = config.get("switchLayers", []);
 
-  // Check for duplicate names
-  const duplicates = checkForDuplicateNames(normalLayers, switchLayers);
+  // Validate every layer, the ones with problems are skipped and reported in the Problems panel
+  const { layers, problems } = validateLayerSettings(config);
+  const { normalLayers, switchLayers, stickyLayers, oneShotLayers } = layers;
 
-  if (duplicates.length > 0) {
-    // TODO: Maybe we want to register non-duplicate layers still.
-    const message = `Hyper layers configuration error: Duplicate layer names found: ${duplicates.join(", ")}. Please ensure all layer names are unique across both Normal Layers and Switch Layers.`;
-    vscode.window.showErrorMessage(message);
-    console.error("Hyper:", message);
-    return; // Don't register any layers if there are duplicates
-  }
+  problems.forEach(problem => {
+    const location = problem.path.map(part => (typeof part === "number" ? `[${part}]` : `.${part}`)).join("");
+    printHyperOutput(`Layer configuration problem in ${problem.setting}${location}: ${problem.message}`);
+  });
+  layerDiagnostics?.report(problems);
 
   // Unregister existing layers first
   unregisterAllLayers();
@@ -135,20 +122,45 @@ function registerLayersFromConfig(context: vscode.ExtensionContext) {
       }
     });
 
+  // Register sticky and one-shot layers
+  const activateLayers: [HyperLayer[], "sticky" | "oneShot"][] = [
+    [stickyLayers, "sticky"],
+    [oneShotLayers, "oneShot"],
+  ];
+  activateLayers.forEach(([layers, layerType]) => {
+    layers
+      .filter(layer => layer.enabled !== false) // Default to enabled if not specified
+      .forEach(layer => {
+        try {
+          registerNormalLayer(context, layer, layerType);
+          console.log(`Registered ${layerType} layer: ${layer.name}`);
+        } catch (error) {
+          console.error(`Failed to register ${layerType} layer ${layer.name}:`, error);
+          vscode.window.showErrorMessage(`Failed to register ${layerType} layer: ${layer.name}`);
+        }
+      });
+  });
+
   const totalRegistered =
-    (normalLayers.filter(l => l.enabled !== false).length +
-    switchLayers.filter(l => l.enabled !== false).length) * 2; // Each layer gets 2 commands (activate + deactivate)
+    [normalLayers, switchLayers, stickyLayers, oneShotLayers]
+      .map(layers => layers.filter(l => l.enabled !== false).length)
+      .reduce((total, count) => total + count, 0) * 2; // Each layer gets 2 commands (activate + deactivate)
 
   console.log(`Hyper: Successfully registered ${totalRegistered} layer commands (activate + deactivate pairs)`);
 }
 
 export function startConfigListeners(context: vscode.ExtensionContext) {
+  // The problems are listed in the output already, reveal it when they can't be pointed at in settings.json
+  layerDiagnostics = new LayerDiagnostics(context, (count, reason) =>
+    printHyperOutput(`${count} layer configuration problems are not shown in the Problems panel: ${reason}`, true)
+  );
+  context.subscriptions.push(layerDiagnostics);
+
   // Initial registration
   registerLayersFromConfig(context);
 
   const configChangeListener = vscode.workspace.onDidChangeConfiguration((event) => {
-    if (event.affectsConfiguration("vstoys.hyper.normalLayers") ||
-        event.affectsConfiguration("vstoys.hyper.switchLayers")) {
+    if (layerSettings.some(setting => event.affectsConfiguration(`vstoys.hyper.${setting}`))) {
       console.log("Hyper: Layer configuration changed, updating registered commands");
       registerLayersFromConfig(context);
     }
@@ -0,0 +1,125 @@
+import * as vscode from "vscode";
+import { HyperLayerStyle } from "./types";
+
+const cursorStyles: Record<NonNullable<HyperLayerStyle["cursorStyle"]>, vscode.TextEditorCursorStyle> = {
+  line: vscode.TextEditorCursorStyle.Line,
+  block: vscode.TextEditorCursorStyle.Block,
+  underline: vscode.TextEditorCursorStyle.Underline,
+  "line-thin": vscode.TextEditorCursorStyle.LineThin,
+  "block-outline": vscode.TextEditorCursorStyle.BlockOutline,
+  "underline-thin": vscode.TextEditorCursorStyle.UnderlineThin,
+};
+
+const statusBarBackgrounds: Record<NonNullable<HyperLayerStyle["statusBarBackground"]>, vscode.ThemeColor> = {
+  error: new vscode.ThemeColor("statusBarItem.errorBackground"),
+  warning: new vscode.ThemeColor("statusBarItem.warningBackground"),
+};
+
+/**
+ * Colors are either a theme color id (`editorError.foreground`) or a css color (`#ff000040`).
+ */
+function toColor(color: string): string | vscode.ThemeColor {
+  return /^[a-zA-Z]+(\.[a-zA-Z]+)+$/.test(color) ? new vscode.ThemeColor(color) : color;
+}
+
+/**
+ * @returns The status bar background of the style, if any.
+ */
+export function getStatusBarBackground(style: HyperLayerStyle | undefined): vscode.ThemeColor | undefined {
+  return style?.statusBarBackground ? statusBarBackgrounds[style.statusBarBackground] : undefined;
+}
+
+/**
+ * Applies the style of the active layer to the visible editors, and restores them once no styled layer is active.
+ */
+export class LayerStyler {
+  private style?: HyperLayerStyle;
+  // The cursor style of each editor before the layer style changed it
+  private originalCursorStyles: Map<vscode.TextEditor, vscode.TextEditorCursorStyle | undefined> = new Map();
+  private lineHighlightDecoration?: vscode.TextEditorDecorationType;
+  private borderDecoration?: vscode.TextEditorDecorationType;
+  private listeners: vscode.Disposable[] = [];
+
+  /**
+   * Switches to the given style, restoring the editors first.
+   * @param style The style of the active layer, undefined to only restore the editors.
+   */
+  apply(style: HyperLayerStyle | undefined) {
+    if (style === this.style) {
+      return;
+    }
+
+    this.restore();
+    if (!style || Object.keys(style).length === 0) {
+      return;
+    }
+
+    this.style = style;
+    if (style.lineHighlight) {
+      this.lineHighlightDecoration = vscode.window.createTextEditorDecorationType({
+        isWholeLine: true,
+        backgroundColor: toColor(style.lineHighlight),
+      });
+    }
+    if (style.border) {
+      // A stripe along the left edge of the text, the editor itself cannot be given a border
+      this.borderDecoration = vscode.window.createTextEditorDecorationType({
+        isWholeLine: true,
+        borderColor: toColor(style.border),
+        borderStyle: "solid",
+        borderWidth: "0 0 0 2px",
+      });
+    }
+
+    this.listeners.push(
+      vscode.window.onDidChangeVisibleTextEditors((editors) => editors.forEach((editor) => this.styleEditor(editor))),
+      vscode.window.onDidChangeTextEditorSelection((event) => this.decorateEditor(event.textEditor)),
+      vscode.window.onDidChangeTextEditorVisibleRanges((event) => this.decorateEditor(event.textEditor))
+    );
+    vscode.window.visibleTextEditors.forEach((editor) => this.styleEditor(editor));
+  }
+
+  /**
+   * Puts back the cursor styles and removes the decorations.
+   */
+  restore() {
+    this.listeners.forEach((listener) => listener.dispose());
+    this.listeners = [];
+
+    const visibleEditors = new Set(vscode.window.visibleTextEditors);
+    this.originalCursorStyles.forEach((cursorStyle, editor) => {
+      if (visibleEditors.has(editor)) {
+        editor.options = { cursorStyle };
+      }
+    });
+    this.originalCursorStyles.clear();
+
+    // Disposing the decoration types removes them from every editor
+    this.lineHighlightDecoration?.dispose();
+    this.lineHighlightDecoration = undefined;
+    this.borderDecoration?.dispose();
+    this.borderDecoration = undefined;
+
+    this.style = undefined;
+  }
+
+  private styleEditor(editor: vscode.TextEditor) {
+    if (this.style?.cursorStyle && !this.originalCursorStyles.has(editor)) {
+      this.originalCursorStyles.set(editor, editor.options.cursorStyle);
+      editor.options = { cursorStyle: cursorStyles[this.style.cursorStyle] };
+    }
+    this.decorateEditor(editor);
+  }
+
+  private decorateEditor(editor: vscode.TextEditor) {
+    if (this.lineHighlightDecoration) {
+      editor.setDecorations(
+        this.lineHighlightDecoration,
+        editor.selections.map((selection) => new vscode.Range(selection.active, selection.active))
+      );
+    }
+    if (this.borderDecoration) {
+      editor.setDecorations(this.borderDecoration, editor.visibleRanges);
+    }
+  }
+}
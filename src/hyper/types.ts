@@ -1,9 +1,19 @@
 // types.ts
+// normal: coexists with other layers
+// switch: deactivates all other layers
+// sticky: coexists with other layers and never times out
+// oneShot: coexists with other layers and deactivates right after the next command runs in it
+export type HyperLayerType = "normal" | "switch" | "sticky" | "oneShot";
+
 export interface LayerActivateInput {
   layerName: string;
-  layerType: "normal" | "switch";
+  layerType: HyperLayerType;
   timeout?: number;
   command?: string;
+  actions?: HyperLayerActions;
+  onEnter?: HyperKeyAction;
+  onExit?: HyperKeyAction;
+  style?: HyperLayerStyle;
 }
 
 export interface LayerDeactivateInput {
@@ -11,8 +21,31 @@ export interface LayerDeactivateInput {
   deactivateAll?: boolean;
 }
 
+// A command id, or a command with arguments
+export type HyperCommand = string | { command: string; args?: any };
+
+// One or more commands that are executed in order
+export type HyperKeyAction = HyperCommand | HyperCommand[];
+
+// Maps a typed character to the action it runs while the layer is active
+export type HyperLayerActions = Record<string, HyperKeyAction>;
+
+// How the editors look while the layer is the active layer
+export interface HyperLayerStyle {
+  cursorStyle?: "line" | "block" | "underline" | "line-thin" | "block-outline" | "underline-thin";
+  // A theme color id or a css color
+  lineHighlight?: string;
+  border?: string;
+  statusBarBackground?: "error" | "warning";
+}
+
 export interface HyperLayer {
   name: string;
   timeout?: number;
   enabled?: boolean;
+  actions?: HyperLayerActions;
+  // Commands run when the layer becomes active, and when it is deactivated
+  onEnter?: HyperKeyAction;
+  onExit?: HyperKeyAction;
+  style?: HyperLayerStyle;
 }
\ No newline at end of file
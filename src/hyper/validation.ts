@@ -0,0 +1,333 @@
+import * as vscode from "vscode";
+import { findNodeAtLocation, parseTree } from "jsonc-parser";
+import { HyperLayer } from "./types";
+import { findUserDataFile } from "../helpers/userDataFiles";
+
+// The settings that declare layers, in the order their layers are registered
+export const layerSettings = ["normalLayers", "switchLayers", "stickyLayers", "oneShotLayers"] as const;
+export type LayerSetting = (typeof layerSettings)[number];
+
+export interface LayerProblem {
+  setting: LayerSetting;
+  // Where the problem is inside the setting value, e.g. [2, "actions", "j"]
+  path: (string | number)[];
+  message: string;
+  severity: vscode.DiagnosticSeverity;
+}
+
+export interface ValidatedLayers {
+  layers: Record<LayerSetting, HyperLayer[]>;
+  problems: LayerProblem[];
+}
+
+const knownLayerProperties = ["name", "timeout", "enabled", "actions", "onEnter", "onExit", "style"];
+const cursorStyles = ["line", "block", "underline", "line-thin", "block-outline", "underline-thin"];
+const statusBarBackgrounds = ["error", "warning"];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * @returns Why the value is not a command id or a `{ command, args }` object, or undefined if it is one.
+ */
+function checkCommand(value: unknown): string | undefined {
+  if (typeof value === "string") {
+    return value.length > 0 ? undefined : "The command must not be empty";
+  }
+  if (!isObject(value)) {
+    return "Expected a command id or an object with a command and args";
+  }
+  if (typeof value.command !== "string" || value.command.length === 0) {
+    return "Expected a command id in the `command` property";
+  }
+  return undefined;
+}
+
+/**
+ * Checks a command, or a list of commands, as used by actions, onEnter and onExit.
+ */
+function checkKeyAction(
+  value: unknown,
+  setting: LayerSetting,
+  path: (string | number)[],
+  problems: LayerProblem[]
+): boolean {
+  const commands = Array.isArray(value) ? value : [value];
+  let isValid = true;
+  commands.forEach((command, index) => {
+    const message = checkCommand(command);
+    if (message) {
+      const commandPath = Array.isArray(value) ? [...path, index] : path;
+      problems.push({ setting, path: commandPath, message, severity: vscode.DiagnosticSeverity.Error });
+      isValid = false;
+    }
+  });
+  return isValid;
+}
+
+/**
+ * Validates one layer declaration.
+ * @returns The layer if it can be registered, undefined otherwise.
+ */
+function validateLayer(
+  value: unknown,
+  setting: LayerSetting,
+  index: number,
+  declaredNames: Map<string, LayerSetting>,
+  problems: LayerProblem[]
+): HyperLayer | undefined {
+  const error = (path: (string | number)[], message: string) =>
+    problems.push({ setting, path: [index, ...path], message, severity: vscode.DiagnosticSeverity.Error });
+  const warning = (path: (string | number)[], message: string) =>
+    problems.push({ setting, path: [index, ...path], message, severity: vscode.DiagnosticSeverity.Warning });
+
+  if (!isObject(value)) {
+    error([], "Expected a layer object with at least a name");
+    return undefined;
+  }
+
+  let isValid = true;
+
+  if (typeof value.name !== "string") {
+    error(value.name === undefined ? [] : ["name"], "The layer needs a `name`");
+    return undefined;
+  }
+  if (value.name.length <= 1) {
+    error(["name"], `Invalid layer name: ${value.name} has to be at least 2 characters long`);
+    isValid = false;
+  } else if (/\s/.test(value.name)) {
+    error(["name"], `Invalid layer name: ${value.name} is used as a context key and cannot contain whitespace`);
+    isValid = false;
+  } else if (declaredNames.has(value.name)) {
+    error(["name"], `Duplicate layer name: ${value.name} is already declared in ${declaredNames.get(value.name)}`);
+    isValid = false;
+  } else {
+    declaredNames.set(value.name, setting);
+  }
+
+  if (value.timeout !== undefined) {
+    if (typeof value.timeout !== "number" || value.timeout <= 0) {
+      error(["timeout"], "The timeout has to be a number of seconds greater than 0");
+      isValid = false;
+    } else if (setting === "stickyLayers") {
+      warning(["timeout"], "Sticky layers never time out, the timeout is ignored");
+    }
+  }
+
+  if (value.enabled !== undefined && typeof value.enabled !== "boolean") {
+    error(["enabled"], "Expected true or false");
+    isValid = false;
+  }
+
+  if (value.actions !== undefined) {
+    if (!isObject(value.actions)) {
+      error(["actions"], "Expected an object mapping typed characters to commands");
+      isValid = false;
+    } else {
+      Object.entries(value.actions).forEach(([key, action]) => {
+        if (!checkKeyAction(action, setting, [index, "actions", key], problems)) {
+          isValid = false;
+        }
+        if ([...key].length !== 1) {
+          warning(["actions", key], `'${key}' is not a single character and will never be typed`);
+        }
+      });
+    }
+  }
+
+  (["onEnter", "onExit"] as const).forEach((hookName) => {
+    if (value[hookName] !== undefined && !checkKeyAction(value[hookName], setting, [index, hookName], problems)) {
+      isValid = false;
+    }
+  });
+
+  if (value.style !== undefined) {
+    if (!isObject(value.style)) {
+      error(
+        ["style"],
+        "Expected an object with the cursorStyle, lineHighlight, border or statusBarBackground of the layer"
+      );
+      isValid = false;
+    } else {
+      const style = value.style;
+      if (style.cursorStyle !== undefined && !cursorStyles.includes(style.cursorStyle as string)) {
+        error(["style", "cursorStyle"], `Expected one of: ${cursorStyles.join(", ")}`);
+        isValid = false;
+      }
+      if (
+        style.statusBarBackground !== undefined &&
+        !statusBarBackgrounds.includes(style.statusBarBackground as string)
+      ) {
+        error(["style", "statusBarBackground"], `Expected one of: ${statusBarBackgrounds.join(", ")}`);
+        isValid = false;
+      }
+      (["lineHighlight", "border"] as const).forEach((colorProperty) => {
+        if (style[colorProperty] !== undefined && typeof style[colorProperty] !== "string") {
+          error(["style", colorProperty], "Expected a theme color id or a css color");
+          isValid = false;
+        }
+      });
+    }
+  }
+
+  Object.keys(value)
+    .filter((property) => !knownLayerProperties.includes(property))
+    .forEach((property) => warning([property], `Unknown layer property: ${property}`));
+
+  return isValid ? (value as unknown as HyperLayer) : undefined;
+}
+
+/**
+ * Validates every layer setting. Layers with problems are left out, all the others can be registered.
+ * Names have to be unique across all the settings, the first declaration of a name wins.
+ */
+export function validateLayerSettings(config: vscode.WorkspaceConfiguration): ValidatedLayers {
+  const problems: LayerProblem[] = [];
+  const declaredNames: Map<string, LayerSetting> = new Map();
+  const layers = {} as Record<LayerSetting, HyperLayer[]>;
+
+  layerSettings.forEach((setting) => {
+    const value = config.get<unknown>(setting, []);
+    layers[setting] = [];
+
+    if (!Array.isArray(value)) {
+      problems.push({
+        setting,
+        path: [],
+        message: "Expected a list of layers",
+        severity: vscode.DiagnosticSeverity.Error,
+      });
+      return;
+    }
+
+    value.forEach((layerValue, index) => {
+      const layer = validateLayer(layerValue, setting, index, declaredNames, problems);
+      if (layer) {
+        layers[setting].push(layer);
+      }
+    });
+  });
+
+  return { layers, problems };
+}
+
+/**
+ * Reports layer problems in the Problems panel, pointing at the settings.json the layers were read from.
+ */
+export class LayerDiagnostics implements vscode.Disposable {
+  private readonly diagnostics = vscode.languages.createDiagnosticCollection("vstoys.hyper");
+  // Drops the results of a report that was superseded while it was reading the settings
+  private reportId = 0;
+
+  constructor(
+    private readonly context: vscode.ExtensionContext,
+    // Told how many problems could not be shown in the Problems panel, and why
+    private readonly onUnlocatedProblems: (count: number, reason: string) => void
+  ) {}
+
+  /**
+   * Replaces the reported problems.
+   */
+  async report(problems: LayerProblem[]) {
+    const reportId = ++this.reportId;
+    const fileDiagnostics: Map<string, [vscode.Uri, vscode.Diagnostic[]]> = new Map();
+    const unlocated: string[] = [];
+
+    for (const problem of problems) {
+      const location = await this.getSettingsLocation(problem.setting);
+      if (!location) {
+        continue;
+      }
+      if ("problem" in location) {
+        unlocated.push(location.problem);
+        continue;
+      }
+
+      const range = await this.findRange(location.uri, [
+        ...location.jsonPath,
+        `vstoys.hyper.${problem.setting}`,
+        ...problem.path,
+      ]);
+      const diagnostic = new vscode.Diagnostic(range, `${problem.setting}: ${problem.message}`, problem.severity);
+      diagnostic.source = "vstoys.hyper";
+
+      const key = location.uri.toString();
+      if (!fileDiagnostics.has(key)) {
+        fileDiagnostics.set(key, [location.uri, []]);
+      }
+      fileDiagnostics.get(key)![1].push(diagnostic);
+    }
+
+    if (reportId !== this.reportId) {
+      return;
+    }
+    this.diagnostics.clear();
+    fileDiagnostics.forEach(([uri, diagnostics]) => this.diagnostics.set(uri, diagnostics));
+    if (unlocated.length > 0) {
+      this.onUnlocatedProblems(unlocated.length, unlocated[0]);
+    }
+  }
+
+  dispose() {
+    this.diagnostics.dispose();
+  }
+
+  /**
+   * Finds the settings file the effective value of the setting comes from.
+   * @returns The file, why it could not be found, or undefined for the default value
+   */
+  private async getSettingsLocation(
+    setting: LayerSetting
+  ): Promise<{ uri: vscode.Uri; jsonPath: string[] } | { problem: string } | undefined> {
+    const inspected = vscode.workspace.getConfiguration("vstoys.hyper").inspect(setting);
+
+    if (inspected?.workspaceValue !== undefined) {
+      const workspaceFile = vscode.workspace.workspaceFile;
+      if (workspaceFile && workspaceFile.scheme !== "untitled") {
+        // The settings of a .code-workspace file live in its "settings" property
+        return { uri: workspaceFile, jsonPath: ["settings"] };
+      }
+      const folder = vscode.workspace.workspaceFolders?.[0];
+      return folder ? { uri: vscode.Uri.joinPath(folder.uri, ".vscode", "settings.json"), jsonPath: [] } : undefined;
+    }
+
+    if (inspected?.globalValue !== undefined) {
+      // With several profiles, the settings.json of the active one holds the value VS Code reports
+      const globalValue = JSON.stringify(inspected.globalValue);
+      const file = await findUserDataFile(
+        this.context,
+        "settings.json",
+        (settings) => JSON.stringify(settings?.[`vstoys.hyper.${setting}`]) === globalValue
+      );
+      return "problem" in file ? file : { uri: file.uri, jsonPath: [] };
+    }
+
+    // The default value, there is no settings.json to point at
+    return undefined;
+  }
+
+  /**
+   * Finds the range of the closest existing node on the path, or the start of the file.
+   */
+  private async findRange(uri: vscode.Uri, jsonPath: (string | number)[]): Promise<vscode.Range> {
+    try {
+      const document = await vscode.workspace.openTextDocument(uri);
+      const root = parseTree(document.getText());
+      for (let length = jsonPath.length; root && length > 0; length--) {
+        const node = findNodeAtLocation(root, jsonPath.slice(0, length));
+        if (node) {
+          // Point at the property name rather than its whole value
+          const target = node.parent?.type === "property" ? node.parent.children![0] : node;
+          return new vscode.Range(
+            document.positionAt(target.offset),
+            document.positionAt(target.offset + target.length)
+          );
+        }
+      }
+    } catch (error) {
+      console.error(`[vstoys.hyper] Could not read ${uri.toString()}`, error);
+    }
+    return new vscode.Range(0, 0, 0, 0);
+  }
+}
@@ -1,5 +1,6 @@
 import * as vscode from "vscode";
 import { LabeledMatch, HybridMatchFinder, HybridJumpAssigner, HybridMatch } from "./hybridJump";
+import { registerTypeHandler } from "../../helpers/commandRecorder";
 
 export interface SearchState {
   pattern: string;
@@ -77,7 +78,7 @@ export class ProgressiveSearchInput {
    * Setup keyboard input capture
    */
   private setupInputCapture(): void {
-    const inputDisposable = vscode.commands.registerCommand("type", (args: { text: string }) => {
+    const inputDisposable = registerTypeHandler((args: { text: string }) => {
       if (!this.isActive) {
         // If not active, execute the default type command
         return vscode.commands.executeCommand("default:type", args);
@@ -3,6 +3,7 @@ import { createOutputChannel } from "../extension";
 import { SemanticJumpHandler } from "./semantic/semanticJumpHandler";
 import { RegularJumpHandler } from "./regular/regularJumpHandler";
 import { HybridJumpHandler } from "./hybrid/hybridJumpHandler";
+import { registerRecordedCommand } from "../helpers/commandRecorder";
 
 let printSemanticJumpOutput: (content: string, reveal?: boolean) => void;
 let semanticJumpHandler: SemanticJumpHandler;
@@ -23,8 +24,12 @@ export function activateSemanticJump(name: string, context: vscode.ExtensionCont
   hybridJumpHandler = new HybridJumpHandler();
 
   context.subscriptions.push(
+    semanticJumpHandler,
+    regularJumpHandler,
+    hybridJumpHandler,
+
     // Semantic jump commands
-    vscode.commands.registerCommand("vstoys.semantic-jump.jump.start", async () => {
+    registerRecordedCommand("vstoys.semantic-jump.jump.start", async () => {
       const editor = vscode.window.activeTextEditor;
       if (!editor) {
         printSemanticJumpOutput("No active text editor");
@@ -34,7 +39,7 @@ export function activateSemanticJump(name: string, context: vscode.ExtensionCont
       semanticJumpHandler.forceCleanup();
       await semanticJumpHandler.startSemanticJump(editor, false, "start");
     }),
-    vscode.commands.registerCommand("vstoys.semantic-jump.jump.end", async () => {
+    registerRecordedCommand("vstoys.semantic-jump.jump.end", async () => {
       const editor = vscode.window.activeTextEditor;
       if (!editor) {
         printSemanticJumpOutput("No active text editor");
@@ -44,7 +49,7 @@ export function activateSemanticJump(name: string, context: vscode.ExtensionCont
       semanticJumpHandler.forceCleanup();
       await semanticJumpHandler.startSemanticJump(editor, false, "end");
     }),
-    vscode.commands.registerCommand("vstoys.semantic-jump.debug", async () => {
+    registerRecordedCommand("vstoys.semantic-jump.debug", async () => {
       const editor = vscode.window.activeTextEditor;
       if (!editor) {
         printSemanticJumpOutput("No active text editor");
@@ -54,12 +59,12 @@ export function activateSemanticJump(name: string, context: vscode.ExtensionCont
       semanticJumpHandler.forceCleanup();
       await semanticJumpHandler.startSemanticJump(editor, true);
     }),
-    vscode.commands.registerCommand("vstoys.semantic-jump.escape", () => {
+    registerRecordedCommand("vstoys.semantic-jump.escape", () => {
       semanticJumpHandler.forceCleanup();
     }),
 
     // Regular jump commands - handled by package configuration, just set up handlers
-    vscode.commands.registerCommand("vstoys.regular-jump.start", async () => {
+    registerRecordedCommand("vstoys.regular-jump.start", async () => {
       const editor = vscode.window.activeTextEditor;
       if (!editor) {
         printSemanticJumpOutput("No active text editor");
@@ -68,24 +73,24 @@ export function activateSemanticJump(name: string, context: vscode.ExtensionCont
 
       await regularJumpHandler.startRegularJump(editor);
     }),
-    vscode.commands.registerCommand("vstoys.regular-jump.escape", async () => {
+    registerRecordedCommand("vstoys.regular-jump.escape", async () => {
       await regularJumpHandler.cancelRegularJump();
     }),
-    vscode.commands.registerCommand("vstoys.regular-jump.backspace", async () => {
+    registerRecordedCommand("vstoys.regular-jump.backspace", async () => {
       await regularJumpHandler.backspace();
     }),
-    vscode.commands.registerCommand("vstoys.regular-jump.enter", async () => {
+    registerRecordedCommand("vstoys.regular-jump.enter", async () => {
       await regularJumpHandler.enter();
     }),
-    vscode.commands.registerCommand("vstoys.regular-jump.next", async () => {
+    registerRecordedCommand("vstoys.regular-jump.next", async () => {
       await regularJumpHandler.nextMatch();
     }),
-    vscode.commands.registerCommand("vstoys.regular-jump.previous", async () => {
+    registerRecordedCommand("vstoys.regular-jump.previous", async () => {
       await regularJumpHandler.previousMatch();
     }),
 
     // Hybrid jump commands
-    vscode.commands.registerCommand("vstoys.hybrid-jump.start", async () => {
+    registerRecordedCommand("vstoys.hybrid-jump.start", async () => {
       const editor = vscode.window.activeTextEditor;
       if (!editor) {
         printSemanticJumpOutput("No active text editor");
@@ -94,19 +99,19 @@ export function activateSemanticJump(name: string, context: vscode.ExtensionCont
 
       await hybridJumpHandler.startHybridJump(editor);
     }),
-    vscode.commands.registerCommand("vstoys.hybrid-jump.escape", async () => {
+    registerRecordedCommand("vstoys.hybrid-jump.escape", async () => {
       await hybridJumpHandler.cancelHybridJump();
     }),
-    vscode.commands.registerCommand("vstoys.hybrid-jump.backspace", async () => {
+    registerRecordedCommand("vstoys.hybrid-jump.backspace", async () => {
       await hybridJumpHandler.backspace();
     }),
-    vscode.commands.registerCommand("vstoys.hybrid-jump.enter", async () => {
+    registerRecordedCommand("vstoys.hybrid-jump.enter", async () => {
       await hybridJumpHandler.enter();
     }),
-    vscode.commands.registerCommand("vstoys.hybrid-jump.next", async () => {
+    registerRecordedCommand("vstoys.hybrid-jump.next", async () => {
       await hybridJumpHandler.nextMatch();
     }),
-    vscode.commands.registerCommand("vstoys.hybrid-jump.previous", async () => {
+    registerRecordedCommand("vstoys.hybrid-jump.previous", async () => {
       await hybridJumpHandler.previousMatch();
     })
   );
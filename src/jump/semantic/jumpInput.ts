@@ -1,4 +1,5 @@
-import { commands, Disposable, StatusBarAlignment, StatusBarItem, TextEditor, window } from "vscode";
+import { Disposable, StatusBarAlignment, StatusBarItem, TextEditor, window } from "vscode";
+import { registerTypeHandler } from "../../helpers/commandRecorder";
 
 const cancellationChars = new Set(["\n"]);
 export const subscriptions: Disposable[] = [];
@@ -15,10 +16,7 @@ export class JumpInput {
       onCancel(...args: any[]): any;
     }
   ) {
-    subscriptions.push(
-      commands.registerCommand("type", this._onInput),
-      window.onDidChangeTextEditorSelection(this._onCancel)
-    );
+    subscriptions.push(registerTypeHandler(this._onInput), window.onDidChangeTextEditorSelection(this._onCancel));
 
     this.statusBarItem = window.createStatusBarItem(StatusBarAlignment.Right, 10000);
   }
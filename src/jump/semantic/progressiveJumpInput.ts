@@ -1,5 +1,6 @@
 import * as vscode from "vscode";
 import { JumpAssignment } from "../shared/adaptiveCharAssigner";
+import { registerTypeHandler } from "../../helpers/commandRecorder";
 
 export type JumpAction = {
   type: "jump" | "refine" | "cancel";
@@ -58,7 +59,7 @@ export class ProgressiveJumpInput {
    */
   private registerInputHandler(): void {
     this.disposables.push(
-      vscode.commands.registerCommand("type", this.handleInput),
+      registerTypeHandler(this.handleInput),
       vscode.window.onDidChangeTextEditorSelection(this.cancel),
       vscode.window.onDidChangeActiveTextEditor(this.cancel)
     );
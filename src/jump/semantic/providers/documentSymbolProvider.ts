@@ -1,4 +1,5 @@
 import * as vscode from "vscode";
+import { FlatDocumentSymbol, getDocumentSymbols } from "../../../helpers/documentSymbols";
 
 type DecodedToken = {
   line: number;
@@ -13,66 +14,41 @@ export async function fetchDocumentSymbols(
   editor: vscode.TextEditor,
   debugMode: boolean = false
 ): Promise<DecodedToken[]> {
-  const symbols: any = await vscode.commands.executeCommand(
-    "vscode.executeDocumentSymbolProvider",
-    editor.document.uri
-  );
-
-  if (!symbols || !Array.isArray(symbols)) {
-    return [];
-  }
-
+  const symbols = await getDocumentSymbols(editor.document.uri);
   return convertSymbolsToTokens(symbols, editor.document, editor.visibleRanges, debugMode);
 }
 
 function convertSymbolsToTokens(
-  symbols: any[],
+  symbols: FlatDocumentSymbol[],
   document: vscode.TextDocument,
   visibleRanges: readonly vscode.Range[],
   debugMode: boolean = false
 ): DecodedToken[] {
   const tokens: DecodedToken[] = [];
 
-  // Helper function to recursively process symbols and their children
-  const processSymbol = (symbol: any) => {
-    if (symbol.location && symbol.location.range) {
-      const range = symbol.location.range;
-      const position = new vscode.Position(range.start.line, range.start.character);
-
-      // Check if symbol is within visible ranges (unless in debug mode)
-      const isVisible = debugMode || visibleRanges.some((visibleRange) => visibleRange.contains(position));
-
-      if (isVisible) {
-        // Map VS Code symbol kinds to semantic token types
-        const type = mapSymbolKindToTokenType(symbol.kind);
+  symbols.forEach((symbol) => {
+    const range = symbol.range;
 
-        // Get the actual text at the symbol location
-        const symbolRange = new vscode.Range(
-          range.start.line,
-          range.start.character,
-          range.end.line,
-          range.end.character
-        );
-        const text = document.getText(symbolRange) || symbol.name;
-
-        tokens.push({
-          line: range.start.line,
-          startChar: range.start.character,
-          length: text.length,
-          type: type,
-          modifiers: [], // Document symbols don't have modifiers like semantic tokens
-          text: text,
-        });
-      }
+    // Check if symbol is within visible ranges (unless in debug mode)
+    const isVisible = debugMode || visibleRanges.some((visibleRange) => visibleRange.contains(range.start));
+    if (!isVisible) {
+      return;
     }
 
-    // Recursively process children if they exist
-    if (symbol.children && Array.isArray(symbol.children)) {
-      symbol.children.forEach(processSymbol);
-    }
-  };
+    // Get the actual text at the symbol location
+    const text = document.getText(range) || symbol.name;
+
+    tokens.push({
+      line: range.start.line,
+      startChar: range.start.character,
+      length: text.length,
+      // Map VS Code symbol kinds to semantic token types
+      type: mapSymbolKindToTokenType(vscode.SymbolKind[symbol.kind]),
+      modifiers: [], // Document symbols don't have modifiers like semantic tokens
+      text: text,
+    });
+  });
 
-  symbols.forEach(processSymbol);
   return tokens;
 }
 
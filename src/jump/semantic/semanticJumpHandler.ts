@@ -5,6 +5,7 @@ import { ProgressiveJumpInput } from "./progressiveJumpInput";
 import { pickColorType } from "../../helpers/pickColorType";
 import { fetchSemanticTokens, filterTokens } from "./providers/semanticTokenProvider";
 import { fetchDocumentSymbols } from "./providers/documentSymbolProvider";
+import { registerTypeHandler } from "../../helpers/commandRecorder";
 
 type DecodedToken = {
   line: number;
@@ -174,7 +175,7 @@ export class SemanticJumpHandler {
     this.debugModeDisposables = [
       vscode.window.onDidChangeTextEditorSelection(disposeDebugMode),
       vscode.window.onDidChangeActiveTextEditor(disposeDebugMode),
-      vscode.commands.registerCommand("type", ({ text }: { text: string }) => {
+      registerTypeHandler(({ text }: { text: string }) => {
         if (text === "\n") {
           disposeDebugMode();
         }
@@ -286,6 +287,13 @@ export class SemanticJumpHandler {
     this.cleanup();
   }
 
+  /**
+   * Dispose resources
+   */
+  dispose(): void {
+    this.cleanup();
+  }
+
   private disposeDecorations(): void {
     if (this.decorationType) {
       this.decorationType.dispose();
@@ -1,6 +1,13 @@
-import { commands, Disposable, ExtensionContext, window, workspace } from "vscode";
+import { ExtensionContext, window, workspace } from "vscode";
 import { MotionInput, InteractiveMotionInput } from "./motionInput";
-import { initializeMotionOperations, updateMotionConfig, executeMotion, MotionConfig } from "./motionOperations";
+import {
+  initializeMotionOperations,
+  updateMotionConfig,
+  executeMotion,
+  MotionConfig,
+  disposeMotionOperations,
+} from "./motionOperations";
+import { registerRecordedCommand } from "../helpers/commandRecorder";
 
 /**
  * Prints the given content on the output channel.
@@ -19,11 +26,9 @@ export function activateMotions(
   name: string,
   context: ExtensionContext,
   createOutputChannel: (name: string) => any
-): Disposable[] {
+): void {
   printMotionOutput = createOutputChannel(name);
 
-  const disposables: Disposable[] = [];
-  
   // Initialize configuration
   let config = workspace.getConfiguration(ConfigSpace);
   let motionConfig: MotionConfig = {
@@ -36,15 +41,15 @@ export function activateMotions(
   initializeMotionOperations(printMotionOutput, motionConfig);
 
   // Register commands that start input listening
-  disposables.push(
-    commands.registerCommand("vstoys.motions.start", startMotionInput),
-    commands.registerCommand("vstoys.motions.di", () => startMotionInput("di")),
-    commands.registerCommand("vstoys.motions.da", () => startMotionInput("da")),
-    commands.registerCommand("vstoys.motions.yi", () => startMotionInput("yi")),
-    commands.registerCommand("vstoys.motions.ya", () => startMotionInput("ya")),
-    commands.registerCommand("vstoys.motions.vi", () => startMotionInput("vi")),
-    commands.registerCommand("vstoys.motions.va", () => startMotionInput("va")),
-    commands.registerCommand("vstoys.motions.escape", cancelMotionInput),
+  context.subscriptions.push(
+    registerRecordedCommand("vstoys.motions.start", startMotionInput),
+    registerRecordedCommand("vstoys.motions.di", () => startMotionInput("di")),
+    registerRecordedCommand("vstoys.motions.da", () => startMotionInput("da")),
+    registerRecordedCommand("vstoys.motions.yi", () => startMotionInput("yi")),
+    registerRecordedCommand("vstoys.motions.ya", () => startMotionInput("ya")),
+    registerRecordedCommand("vstoys.motions.vi", () => startMotionInput("vi")),
+    registerRecordedCommand("vstoys.motions.va", () => startMotionInput("va")),
+    registerRecordedCommand("vstoys.motions.escape", cancelMotionInput),
     workspace.onDidChangeConfiguration((event) => {
       if (
         event.affectsConfiguration(`${ConfigSpace}.foregroundColor`) ||
@@ -64,7 +69,12 @@ export function activateMotions(
   );
 
   printMotionOutput("Motions module activated");
-  return disposables;
+}
+
+export function deactivateMotions(): void {
+  // Stop listening for motion input and remove any lingering yank highlight
+  cancelMotionInput();
+  disposeMotionOperations();
 }
 
 function cancelMotionInput(): void {
@@ -1,4 +1,5 @@
 import { commands, Disposable, StatusBarAlignment, StatusBarItem, TextEditor, window } from "vscode";
+import { registerTypeHandler } from "../helpers/commandRecorder";
 
 const cancellationChars = new Set(["\n"]);
 
@@ -22,10 +23,7 @@ export class MotionInput {
   count = "";
 
   constructor(private readonly props: MotionInputProps) {
-    subscriptions.push(
-      commands.registerCommand("type", this._onInput),
-      window.onDidChangeTextEditorSelection(this._onCancel)
-    );
+    subscriptions.push(registerTypeHandler(this._onInput), window.onDidChangeTextEditorSelection(this._onCancel));
 
     this.statusBarItem = window.createStatusBarItem(StatusBarAlignment.Right, 10000);
     this.updateStatusBar(this.props.operation);
@@ -96,10 +94,7 @@ export class InteractiveMotionInput {
   operation = "";
 
   constructor(private readonly props: InteractiveMotionInputProps) {
-    subscriptions.push(
-      commands.registerCommand("type", this._onInput),
-      window.onDidChangeTextEditorSelection(this._onCancel)
-    );
+    subscriptions.push(registerTypeHandler(this._onInput), window.onDidChangeTextEditorSelection(this._onCancel));
 
     this.statusBarItem = window.createStatusBarItem(StatusBarAlignment.Right, 10000);
     this.updateStatusBar("");
@@ -1,6 +1,7 @@
-import { window, Selection, Range, env } from "vscode";
+import { window, Selection, Range, env, TextEditorDecorationType } from "vscode";
 import { findTextObject, TEXT_OBJECTS } from "./textObjects";
 import { pickColorType } from "../helpers/pickColorType";
+import { recordYank } from "../helpers/yankHistory";
 
 export interface MotionConfig {
   foregroundColor?: string;
@@ -11,6 +12,9 @@ export interface MotionConfig {
 let printMotionOutput: (content: string, reveal?: boolean) => void;
 let motionConfig: MotionConfig;
 
+// Yank highlights that are still waiting for their timeout
+const pendingHighlights: Map<TextEditorDecorationType, NodeJS.Timeout> = new Map();
+
 export function initializeMotionOperations(
   outputFunction: (content: string, reveal?: boolean) => void,
   config: MotionConfig
@@ -23,6 +27,17 @@ export function updateMotionConfig(config: MotionConfig): void {
   motionConfig = config;
 }
 
+/**
+ * Removes any yank highlight that is still visible
+ */
+export function disposeMotionOperations(): void {
+  pendingHighlights.forEach((timeout, decorationType) => {
+    clearTimeout(timeout);
+    decorationType.dispose();
+  });
+  pendingHighlights.clear();
+}
+
 export function executeMotion(operation: string, textObject: string, count: number): void {
   const editor = window.activeTextEditor;
   if (!editor) {
@@ -80,13 +95,18 @@ export function executeMotion(operation: string, textObject: string, count: numb
 }
 
 async function performDelete(editor: any, ranges: { range: Range; isInner: boolean }[]): Promise<void> {
-  await editor.edit((editBuilder: any) => {
+  const deletedText = ranges.map(({ range }) => editor.document.getText(range)).join("\n");
+  const origin = { document: editor.document, range: ranges[0].range };
+  const applied = await editor.edit((editBuilder: any) => {
     ranges.sort((a, b) => b.range.start.compareTo(a.range.start));
 
     for (const { range } of ranges) {
       editBuilder.delete(range);
     }
   });
+  if (applied) {
+    recordYank(deletedText, "delete", "motions", origin);
+  }
   printMotionOutput(`Deleted ${ranges.length} text object(s)`);
 }
 
@@ -95,6 +115,7 @@ async function performYank(editor: any, ranges: { range: Range; isInner: boolean
   const combinedText = texts.join("\n");
 
   await env.clipboard.writeText(combinedText);
+  recordYank(combinedText, "yank", "motions", { document: editor.document, range: ranges[0].range });
 
   // Highlight the yanked ranges for visual feedback
   const decorationType = window.createTextEditorDecorationType({
@@ -109,9 +130,13 @@ async function performYank(editor: any, ranges: { range: Range; isInner: boolean
   editor.setDecorations(decorationType, decorationRanges);
 
   // Remove decoration after timeout
-  setTimeout(() => {
-    decorationType.dispose();
-  }, motionConfig.timeout);
+  pendingHighlights.set(
+    decorationType,
+    setTimeout(() => {
+      pendingHighlights.delete(decorationType);
+      decorationType.dispose();
+    }, motionConfig.timeout)
+  );
 
   printMotionOutput(`Yanked ${ranges.length} text object(s) to clipboard`);
 }
@@ -1,4 +1,5 @@
 import * as vscode from "vscode";
+import { processMultiLineContent } from "../helpers/indentation";
 
 /**
  * Detect the line ending format used in the document
@@ -14,66 +15,6 @@ function detectLineEnding(document: vscode.TextDocument): string {
   }
 }
 
-/**
- * Process multi-line clipboard content with relative indentation preservation
- * @param clipboardLines Array of lines from clipboard
- * @param targetIndentation Target indentation to anchor to
- * @returns Array of processed lines with adjusted indentation
- */
-function processMultiLineContent(clipboardLines: string[], targetIndentation: string): string[] {
-  // Filter out empty lines at the end
-  while (clipboardLines.length > 0 && clipboardLines[clipboardLines.length - 1].trim() === "") {
-    clipboardLines.pop();
-  }
-
-  if (clipboardLines.length === 0) {
-    return [""];
-  }
-
-  // Find the minimum indentation level (base level to anchor from)
-  let minIndentation = Infinity;
-  const lineIndentations: string[] = [];
-
-  for (const line of clipboardLines) {
-    const indentMatch = line.match(/^(\s*)/);
-    const indent = indentMatch ? indentMatch[1] : "";
-    lineIndentations.push(indent);
-
-    // Only consider non-empty lines for minimum indentation
-    if (line.trim().length > 0) {
-      minIndentation = Math.min(minIndentation, indent.length);
-    }
-  }
-
-  // If all lines were empty, set minIndentation to 0
-  if (minIndentation === Infinity) {
-    minIndentation = 0;
-  }
-
-  // Process each line: remove base indentation and apply target indentation
-  const processedLines: string[] = [];
-
-  for (let i = 0; i < clipboardLines.length; i++) {
-    const line = clipboardLines[i];
-    const lineIndent = lineIndentations[i];
-
-    if (line.trim().length === 0) {
-      // Empty lines remain empty
-      processedLines.push("");
-    } else {
-      // Calculate relative indentation from the base level
-      const relativeIndent = lineIndent.substring(minIndentation);
-      const content = line.substring(lineIndent.length);
-
-      // Combine target indentation + relative indentation + content
-      const newLine = targetIndentation + relativeIndent + content;
-      processedLines.push(newLine);
-    }
-  }
-
-  return processedLines;
-}
-
 /**
  * Paste Replace: Normal paste behavior with smart indentation
  * - Replaces selections like normal paste
@@ -0,0 +1,291 @@
+import * as vscode from "vscode";
+import { RegisterManager } from "./registerManager";
+import { captureTypeInput, onDidRunCommand } from "../helpers/commandRecorder";
+
+// Lines are relative to the line of the primary cursor before the step, characters are columns
+export interface MacroSelection {
+  anchorLine: number;
+  anchorCharacter: number;
+  activeLine: number;
+  activeCharacter: number;
+}
+
+export type MacroStep =
+  | { kind: "command"; command: string; args?: any[] }
+  | { kind: "type"; text: string }
+  | { kind: "selection"; selections: MacroSelection[] };
+
+// The commands that control recording are not part of the macro
+const recorderCommands = ["vstoys.registers.recordMacro", "vstoys.registers.stopRecordingMacro"];
+
+/**
+ * Reads the steps of a macro register.
+ * @throws When the text is not a json array of macro steps.
+ */
+export function parseMacro(text: string): MacroStep[] {
+  const steps = JSON.parse(text);
+  if (!Array.isArray(steps)) {
+    throw new Error("A macro is a json array of steps");
+  }
+  steps.forEach((step, index) => {
+    const valid =
+      (step?.kind === "command" && typeof step.command === "string") ||
+      (step?.kind === "type" && typeof step.text === "string") ||
+      (step?.kind === "selection" && Array.isArray(step.selections));
+    if (!valid) {
+      throw new Error(`Step ${index + 1} is not a command, type or selection step: ${JSON.stringify(step)}`);
+    }
+  });
+  return steps;
+}
+
+interface Recording {
+  registerName: string;
+  steps: MacroStep[];
+  listeners: vscode.Disposable[];
+  statusBarItem: vscode.StatusBarItem;
+  // The document and version seen by the last selection change, a new version means the change came from an edit
+  document?: vscode.TextDocument;
+  version?: number;
+  // The primary cursor line before the last selection change, and before the last selection step
+  line: number;
+  selectionStepLine: number;
+}
+
+/**
+ * Records VsToys commands, typed text and cursor movements into a register, and replays them.
+ */
+export class MacroRecorder {
+  private recording?: Recording;
+  private replaying = 0;
+
+  constructor(
+    private registerManager: RegisterManager,
+    private printOutput: (content: string, reveal?: boolean) => void
+  ) {}
+
+  public get recordingRegister(): string | undefined {
+    return this.recording?.registerName;
+  }
+
+  public start(registerName: string): void {
+    this.stop();
+
+    const editor = vscode.window.activeTextEditor;
+    const line = editor?.selection.active.line ?? 0;
+    const statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 10000);
+    statusBarItem.text = `$(record) Recording @${registerName}`;
+    statusBarItem.tooltip = "Recording a macro, run Registers: Stop Recording Macro to save it";
+    statusBarItem.command = "vstoys.registers.stopRecordingMacro";
+    statusBarItem.show();
+
+    const recording: Recording = {
+      registerName,
+      steps: [],
+      listeners: [],
+      statusBarItem,
+      document: editor?.document,
+      version: editor?.document.version,
+      line,
+      selectionStepLine: line,
+    };
+    recording.listeners.push(
+      captureTypeInput(),
+      onDidRunCommand((event) => this.onCommand(recording, event.command, event.args)),
+      vscode.window.onDidChangeTextEditorSelection((event) => this.onSelection(recording, event))
+    );
+    this.recording = recording;
+
+    vscode.commands.executeCommand("setContext", "vstoys.registers.recordingMacro", true);
+    this.printOutput(`Recording macro into register ${registerName}`);
+  }
+
+  /**
+   * Stores the recorded steps in the register, a recording without steps leaves the register untouched.
+   */
+  public stop(): void {
+    const recording = this.recording;
+    if (!recording) {
+      return;
+    }
+
+    this.recording = undefined;
+    recording.listeners.forEach((listener) => listener.dispose());
+    recording.statusBarItem.dispose();
+    vscode.commands.executeCommand("setContext", "vstoys.registers.recordingMacro", false);
+
+    if (recording.steps.length === 0) {
+      this.printOutput(`Nothing recorded, register ${recording.registerName} is unchanged`);
+      vscode.window.showInformationMessage("Nothing was recorded");
+      return;
+    }
+
+    this.registerManager.storeInRegister(recording.registerName, JSON.stringify(recording.steps, null, 2), {
+      source: "macro",
+      macro: true,
+    });
+    this.printOutput(`Recorded ${recording.steps.length} steps into register ${recording.registerName}`);
+    vscode.window.showInformationMessage(
+      `Recorded ${recording.steps.length} macro steps into register ${recording.registerName}`
+    );
+  }
+
+  private onCommand(recording: Recording, command: string, args: any[]) {
+    if (this.replaying > 0 || recorderCommands.includes(command)) {
+      return;
+    }
+
+    if (command === "type") {
+      const text = args[0]?.text;
+      if (typeof text !== "string") {
+        return;
+      }
+      const lastStep = recording.steps[recording.steps.length - 1];
+      if (lastStep?.kind === "type") {
+        lastStep.text += text;
+      } else {
+        recording.steps.push({ kind: "type", text });
+      }
+      return;
+    }
+
+    recording.steps.push(args.length > 0 ? { kind: "command", command, args } : { kind: "command", command });
+    this.printOutput(`Recorded ${command}`);
+  }
+
+  /**
+   * Records cursor movements made with the keyboard or mouse. Edits and commands move the cursor too,
+   * but replaying the edit or command already does that.
+   */
+  private onSelection(recording: Recording, event: vscode.TextEditorSelectionChangeEvent) {
+    const document = event.textEditor.document;
+    const edited = document !== recording.document || document.version !== recording.version;
+    const baseLine = recording.line;
+    recording.document = document;
+    recording.version = document.version;
+    recording.line = event.selections[0].active.line;
+
+    const movedByUser =
+      event.kind === vscode.TextEditorSelectionChangeKind.Keyboard ||
+      event.kind === vscode.TextEditorSelectionChangeKind.Mouse;
+    if (this.replaying > 0 || edited || !movedByUser) {
+      return;
+    }
+
+    // Consecutive movements become a single step, relative to the cursor before the first one
+    const lastStep = recording.steps[recording.steps.length - 1];
+    const merge = lastStep?.kind === "selection";
+    if (!merge) {
+      recording.selectionStepLine = baseLine;
+    }
+    const selections = event.selections.map((selection) => ({
+      anchorLine: selection.anchor.line - recording.selectionStepLine,
+      anchorCharacter: selection.anchor.character,
+      activeLine: selection.active.line - recording.selectionStepLine,
+      activeCharacter: selection.active.character,
+    }));
+    if (merge) {
+      lastStep.selections = selections;
+    } else {
+      recording.steps.push({ kind: "selection", selections });
+    }
+  }
+
+  /**
+   * Runs the steps of a macro register, stopping at the first step that fails.
+   * @param count How many times the macro runs.
+   * @returns Whether every step ran
+   */
+  public async replay(registerName: string, count: number = 1): Promise<boolean> {
+    const content = this.registerManager.getRegisterContent(registerName);
+    if (!content || !this.registerManager.hasContent(registerName)) {
+      vscode.window.showWarningMessage(`Register ${registerName} is empty`);
+      return false;
+    }
+
+    let steps: MacroStep[];
+    try {
+      steps = parseMacro(content.text);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Register ${registerName} does not contain a macro: ${error}`);
+      return false;
+    }
+
+    this.replaying++;
+    let run = 0;
+    // The step whose result is awaited, a pending command fails after the type steps that follow it
+    let failedIndex = 0;
+    try {
+      for (run = 0; run < count; run++) {
+        // Commands that read typed input only finish once the type steps after them ran
+        let pending: Promise<unknown> | undefined;
+        let pendingIndex = 0;
+        for (let index = 0; index < steps.length; index++) {
+          const step = steps[index];
+          if (step.kind !== "type" && pending) {
+            failedIndex = pendingIndex;
+            await pending;
+            pending = undefined;
+          }
+
+          const result = this.runStep(step);
+          if (step.kind === "command" && steps[index + 1]?.kind === "type") {
+            pending = result;
+            pendingIndex = index;
+            // Handled when it is awaited, which a failing type step skips
+            pending.catch(() => undefined);
+          } else {
+            failedIndex = index;
+            await result;
+          }
+        }
+        if (pending) {
+          failedIndex = pendingIndex;
+          await pending;
+        }
+      }
+    } catch (error) {
+      const runs = count > 1 ? ` in run ${run + 1} of ${count}` : "";
+      const message = `Macro ${registerName} stopped at step ${failedIndex + 1} of ${steps.length}${runs}: ${error}`;
+      this.printOutput(message);
+      vscode.window.showErrorMessage(message);
+      return false;
+    } finally {
+      this.replaying--;
+    }
+
+    this.printOutput(`Replayed macro ${registerName}${count > 1 ? ` ${count} times` : ""}`);
+    return true;
+  }
+
+  private async runStep(step: MacroStep): Promise<unknown> {
+    switch (step.kind) {
+      case "command":
+        return vscode.commands.executeCommand(step.command, ...(step.args ?? []));
+      case "type":
+        return vscode.commands.executeCommand("type", { text: step.text });
+      case "selection": {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+          throw new Error("No active editor to move the cursor in");
+        }
+        const baseLine = editor.selection.active.line;
+        const position = (line: number, character: number) =>
+          editor.document.validatePosition(new vscode.Position(Math.max(0, baseLine + line), character));
+        editor.selections = step.selections.map(
+          (selection) =>
+            new vscode.Selection(
+              position(selection.anchorLine, selection.anchorCharacter),
+              position(selection.activeLine, selection.activeCharacter)
+            )
+        );
+        editor.revealRange(editor.selection);
+        return undefined;
+      }
+    }
+  }
+
+  public dispose(): void {
+    this.stop();
+  }
+}
@@ -1,7 +1,15 @@
 import * as vscode from "vscode";
-import { RegisterManager } from "./registerManager";
+import { RegisterManager, toRegisterLocation } from "./registerManager";
 import { RegisterQuickPick } from "./quickPick";
+import { getRegisterUri, RegisterFileSystemProvider, registerScheme } from "./registerFileSystem";
+import { RegisterTreeDataProvider } from "./registerTreeView";
 import { createOutputChannel } from "../extension";
+import { onDidYank, recordYank, YankEvent, YankOrigin } from "../helpers/yankHistory";
+import { processMultiLineContent } from "../helpers/indentation";
+import { applyTransforms, findUnknownTransforms, getTransforms } from "./transforms";
+import { parseRegisters, registerExportPath, serializeRegisters } from "./registerExport";
+import { MacroRecorder } from "./macroRecorder";
+import { registerRecordedCommand } from "../helpers/commandRecorder";
 
 let printRegistersOutput: (content: string, reveal?: boolean) => void;
 
@@ -10,52 +18,133 @@ export function activateRegisters(name: string, context: vscode.ExtensionContext
   printRegistersOutput = createOutputChannel(`${name}`);
   printRegistersOutput(`${name} activating`);
 
-  const registerManager = new RegisterManager();
+  const registerManager = new RegisterManager(context);
   const quickPick = new RegisterQuickPick(registerManager, printRegistersOutput);
+  const macroRecorder = new MacroRecorder(registerManager, printRegistersOutput);
+  // The recorder goes first so a recording is saved before the register manager is disposed
+  context.subscriptions.push(macroRecorder, registerManager);
 
-  const copyToRegister = (registerNumber: number) => {
+  // Registers can be opened, edited and saved as `vstoys-register:/<name>` documents
+  const registerFileSystem = new RegisterFileSystemProvider(registerManager);
+  const registerTreeDataProvider = new RegisterTreeDataProvider(registerManager);
+  context.subscriptions.push(
+    registerFileSystem,
+    vscode.workspace.registerFileSystemProvider(registerScheme, registerFileSystem, { isCaseSensitive: true }),
+    registerTreeDataProvider,
+    vscode.window.createTreeView("vstoys.registers.view", { treeDataProvider: registerTreeDataProvider })
+  );
+
+  // Uppercase letters name the same register as their lowercase letter, in append mode
+  const parseRegisterName = (
+    registerName: string | undefined
+  ): { registerName: string; append: boolean } | undefined => {
+    if (registerName === undefined) {
+      return undefined;
+    }
+    if (/^[A-Z]$/.test(registerName) && registerManager.isValidRegister(registerName.toLowerCase())) {
+      return { registerName: registerName.toLowerCase(), append: true };
+    }
+    return registerManager.isValidRegister(registerName) ? { registerName, append: false } : undefined;
+  };
+
+  /**
+   * Copies the selections into a register, or the cursor lines for empty selections.
+   * With multiple cursors each cursor's text is also kept as a fragment to paste one per cursor.
+   * The register remembers where the text came from, and is linewise when only empty selections were copied.
+   * @param append Append to the register content instead of replacing it.
+   */
+  const copyToRegister = (registerName: string, append: boolean = false) => {
     const editor = vscode.window.activeTextEditor;
     if (!editor) {
       vscode.window.showErrorMessage("Can't copy with no active editor");
       return;
     }
 
-    let text: string;
-    if (editor.selection.isEmpty) {
-      const line = editor.document.lineAt(editor.selection.active.line);
-      text = line.text;
-      printRegistersOutput(`Copied line to register ${registerNumber}: ${registerManager.getPreview(text, 20)}`);
+    // Like the native clipboard, fragments follow the document order of the cursors
+    const selections = [...editor.selections].sort((a, b) => a.start.compareTo(b.start));
+    const texts = selections.map((selection) =>
+      selection.isEmpty ? editor.document.lineAt(selection.active.line).text : editor.document.getText(selection)
+    );
+    const eol = editor.document.eol === vscode.EndOfLine.CRLF ? "\r\n" : "\n";
+    const text = texts.join(eol);
+    const details = {
+      fragments: texts.length > 1 ? texts : undefined,
+      location: toRegisterLocation(
+        editor.document,
+        new vscode.Range(selections[0].start, selections[selections.length - 1].end)
+      ),
+      languageId: editor.document.languageId,
+      linewise: selections.every((selection) => selection.isEmpty),
+    };
+
+    const copied =
+      selections.length > 1 ? `${selections.length} cursors` : selections[0].isEmpty ? "line" : "selection";
+    if (append) {
+      registerManager.appendToRegister(registerName, text, details);
+      printRegistersOutput(`Appended ${copied} to register ${registerName}: ${registerManager.getPreview(text, 20)}`);
+      vscode.window.showInformationMessage(`Text appended to register ${registerName}`);
     } else {
-      text = editor.document.getText(editor.selection);
-      printRegistersOutput(`Copied selection to register ${registerNumber}: ${registerManager.getPreview(text, 20)}`);
+      registerManager.storeInRegister(registerName, text, details);
+      printRegistersOutput(`Copied ${copied} to register ${registerName}: ${registerManager.getPreview(text, 20)}`);
+      vscode.window.showInformationMessage(`Text saved to register ${registerName}`);
     }
-
-    registerManager.storeInRegister(registerNumber, text);
-    vscode.window.showInformationMessage(`Text saved to register ${registerNumber}`);
   };
 
-  const pasteFromRegister = (registerNumber: number) => {
+  /**
+   * Pastes a register at every cursor. When it was copied with as many cursors as there are now,
+   * each cursor gets its own fragment instead of the whole text.
+   * Linewise content pasted at a cursor goes on new lines below it, reindented like the cursor line.
+   * @param transformNames Transforms applied to the text, or to each fragment, before it is pasted.
+   */
+  const pasteFromRegister = (registerName: string, transformNames: string[] = []) => {
     const editor = vscode.window.activeTextEditor;
     if (!editor) {
       vscode.window.showErrorMessage("Can't paste with No active editor");
       return;
     }
 
-    const text = registerManager.getFromRegister(registerNumber);
-    if (!text) {
-      vscode.window.showWarningMessage(`Register ${registerNumber} is empty`);
+    const content = registerManager.getRegisterContent(registerName);
+    if (!content || !registerManager.hasContent(registerName)) {
+      vscode.window.showWarningMessage(`Register ${registerName} is empty`);
       return;
     }
 
-    editor.edit((editBuilder) => {
-      if (editor.selection.isEmpty) {
-        editBuilder.insert(editor.selection.active, text);
-      } else {
-        editBuilder.replace(editor.selection, text);
+    let transform = (text: string) => text;
+    if (transformNames.length > 0) {
+      const transforms = getTransforms(printRegistersOutput);
+      const unknownTransforms = findUnknownTransforms(transformNames, transforms);
+      if (unknownTransforms.length > 0) {
+        vscode.window.showErrorMessage(`Unknown register transform ${unknownTransforms.join(", ")}`);
+        return;
       }
+      transform = (text) => applyTransforms(text, transformNames, transforms);
+    }
+
+    const selections = [...editor.selections].sort((a, b) => a.start.compareTo(b.start));
+    const spread = content.fragments !== undefined && content.fragments.length === selections.length;
+    const eol = editor.document.eol === vscode.EndOfLine.CRLF ? "\r\n" : "\n";
+
+    editor.edit((editBuilder) => {
+      selections.forEach((selection, index) => {
+        const text = transform(spread ? content.fragments![index] : content.text);
+        if (content.linewise && selection.isEmpty) {
+          const line = editor.document.lineAt(selection.active.line);
+          const leadingWhitespace = line.text.match(/^\s*/)?.[0] || "";
+          const lines = processMultiLineContent(text.split(/\r?\n/), leadingWhitespace);
+          editBuilder.insert(line.range.end, eol + lines.join(eol));
+        } else if (selection.isEmpty) {
+          editBuilder.insert(selection.active, text);
+        } else {
+          editBuilder.replace(selection, text);
+        }
+      });
     });
 
-    printRegistersOutput(`Pasted from register ${registerNumber}: ${registerManager.getPreview(text, 20)}`);
+    const target = spread ? ` to ${selections.length} cursors` : "";
+    const transformed = transformNames.length > 0 ? ` (${transformNames.join(" › ")})` : "";
+    printRegistersOutput(
+      `Pasted from register ${registerName}${target}${transformed}: ${registerManager.getPreview(content.text, 20)}`
+    );
   };
 
   const showRegisterPastePicker = async () => {
@@ -65,15 +154,9 @@ export function activateRegisters(name: string, context: vscode.ExtensionContext
       return;
     }
 
-    const selectedText = await quickPick.showRegisterPastePicker();
-    if (selectedText) {
-      editor.edit((editBuilder) => {
-        if (editor.selection.isEmpty) {
-          editBuilder.insert(editor.selection.active, selectedText);
-        } else {
-          editBuilder.replace(editor.selection, selectedText);
-        }
-      });
+    const selectedRegister = await quickPick.showRegisterPastePicker(true);
+    if (selectedRegister !== undefined) {
+      pasteFromRegister(selectedRegister.registerName, selectedRegister.transforms);
     }
   };
 
@@ -84,39 +167,304 @@ export function activateRegisters(name: string, context: vscode.ExtensionContext
       return;
     }
 
-    const selectedRegister = await quickPick.showCopyPicker();
+    const selectedRegister = parseRegisterName(await quickPick.showCopyPicker());
     if (selectedRegister !== undefined) {
       // Copy to the selected register
-      copyToRegister(selectedRegister);
+      copyToRegister(selectedRegister.registerName, selectedRegister.append);
+    }
+  };
+
+  /**
+   * Reads the register name from the command args, either `{ "register": "a" }` or just `"a"`.
+   * An uppercase letter, or `"append": true`, appends to the register instead of replacing it.
+   * Unknown names are reported and treated as missing.
+   */
+  const parseRegisterArgs = (args: any): { registerName: string; append: boolean } | undefined => {
+    const registerName = args?.register ?? args;
+    if (registerName === undefined || registerName === null || typeof registerName === "object") {
+      return undefined;
+    }
+
+    const parsed = parseRegisterName(String(registerName));
+    if (!parsed) {
+      vscode.window.showErrorMessage(
+        `Unknown register ${registerName}, use a number between 1 and ${registerManager.numberedRegisterCount} or a letter a-z`
+      );
+      return undefined;
     }
+    return { registerName: parsed.registerName, append: parsed.append || args?.append === true };
   };
 
+  context.subscriptions.push(
+    registerRecordedCommand("vstoys.registers.copyToRegister", (args) => {
+      const register = parseRegisterArgs(args);
+      if (register !== undefined) {
+        copyToRegister(register.registerName, register.append);
+      } else {
+        showRegisterCopyPicker();
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    registerRecordedCommand("vstoys.registers.pasteFromRegister", (args) => {
+      const register = parseRegisterArgs(args);
+      if (register !== undefined) {
+        // e.g. `{ "register": "a", "transforms": ["trim", "snakeCase"] }`
+        const transforms = Array.isArray(args?.transforms) ? args.transforms.map(String) : [];
+        pasteFromRegister(register.registerName, transforms);
+      } else {
+        showRegisterPastePicker();
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    registerRecordedCommand("vstoys.registers.editRegister", async (args) => {
+      const registerName =
+        parseRegisterArgs(args)?.registerName ?? (await quickPick.showRegisterPastePicker())?.registerName;
+      if (registerName !== undefined) {
+        await vscode.window.showTextDocument(getRegisterUri(registerName));
+        printRegistersOutput(`Editing register ${registerName}`);
+      }
+    })
+  );
+
+  // Kept for keybindings made before registers could be named
   for (let i = 1; i <= 5; i++) {
     context.subscriptions.push(
-      vscode.commands.registerCommand(`vstoys.registers.copyToRegister${i}`, () => copyToRegister(i))
+      registerRecordedCommand(`vstoys.registers.copyToRegister${i}`, () => copyToRegister(String(i)))
     );
 
     context.subscriptions.push(
-      vscode.commands.registerCommand(`vstoys.registers.pasteFromRegister${i}`, () => pasteFromRegister(i))
+      registerRecordedCommand(`vstoys.registers.pasteFromRegister${i}`, () => pasteFromRegister(String(i)))
     );
   }
 
   context.subscriptions.push(
-    vscode.commands.registerCommand("vstoys.registers.showRegisterPastePicker", showRegisterPastePicker)
+    registerRecordedCommand("vstoys.registers.showRegisterPastePicker", showRegisterPastePicker)
+  );
+
+  context.subscriptions.push(
+    registerRecordedCommand("vstoys.registers.showRegisterCopyPicker", showRegisterCopyPicker)
+  );
+
+  const pickWorkspaceFolder = async (): Promise<vscode.WorkspaceFolder | undefined> => {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    if (folders.length === 0) {
+      vscode.window.showErrorMessage(`Registers are shared through ${registerExportPath}, open a folder first`);
+      return undefined;
+    }
+    return folders.length === 1 ? folders[0] : await vscode.window.showWorkspaceFolderPick();
+  };
+
+  /**
+   * Writes every register with content to the export file of a workspace folder, so a repo can share them.
+   */
+  const exportRegisters = async () => {
+    const registers = registerManager.getNonEmptyRegisters();
+    if (registers.length === 0) {
+      vscode.window.showInformationMessage("No registers contain content");
+      return;
+    }
+
+    const folder = await pickWorkspaceFolder();
+    if (!folder) {
+      return;
+    }
+
+    const uri = vscode.Uri.joinPath(folder.uri, registerExportPath);
+    try {
+      await vscode.workspace.fs.stat(uri);
+      const overwrite = await vscode.window.showWarningMessage(
+        `${registerExportPath} already exists, overwrite it?`,
+        { modal: true },
+        "Overwrite"
+      );
+      if (overwrite !== "Overwrite") {
+        return;
+      }
+    } catch {
+      // There is no export yet
+    }
+
+    try {
+      await vscode.workspace.fs.writeFile(uri, Buffer.from(serializeRegisters(registers, folder), "utf8"));
+      printRegistersOutput(`Exported registers ${registers.map(({ name }) => name).join(", ")} to ${uri.fsPath}`);
+      const open = await vscode.window.showInformationMessage(
+        `Exported ${registers.length} registers to ${registerExportPath}`,
+        "Open"
+      );
+      if (open === "Open") {
+        await vscode.window.showTextDocument(uri);
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to export registers: ${error}`);
+    }
+  };
+
+  /**
+   * Loads the registers from the export file of a workspace folder.
+   * @param mode `merge` keeps the registers missing from the file, `replace` empties them. Asked for when missing.
+   */
+  const importRegisters = async (mode?: "merge" | "replace") => {
+    const folder = await pickWorkspaceFolder();
+    if (!folder) {
+      return;
+    }
+
+    const uri = vscode.Uri.joinPath(folder.uri, registerExportPath);
+    let registers;
+    let problems;
+    try {
+      ({ registers, problems } = parseRegisters(
+        Buffer.from(await vscode.workspace.fs.readFile(uri)).toString("utf8"),
+        folder
+      ));
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to import registers from ${registerExportPath}: ${error}`);
+      return;
+    }
+
+    if (mode !== "merge" && mode !== "replace") {
+      const picked = await vscode.window.showQuickPick(
+        [
+          { label: "Merge", description: "Keep registers that are not in the file", mode: "merge" as const },
+          { label: "Replace", description: "Empty registers that are not in the file", mode: "replace" as const },
+        ],
+        { title: `Import ${registers.size} registers from ${registerExportPath}` }
+      );
+      if (!picked) {
+        return;
+      }
+      mode = picked.mode;
+    }
+
+    const imported = registerManager.importRegisters(registers, mode === "replace");
+    printRegistersOutput(`Imported registers ${imported.join(", ")} from ${uri.fsPath} (${mode})`);
+    problems.forEach((problem) => printRegistersOutput(`  ${problem}`));
+    if (problems.length > 0) {
+      vscode.window.showWarningMessage(
+        `Imported ${imported.length} registers from ${registerExportPath} with ${problems.length} problems, see the output`
+      );
+    } else {
+      vscode.window.showInformationMessage(`Imported ${imported.length} registers from ${registerExportPath}`);
+    }
+  };
+
+  context.subscriptions.push(registerRecordedCommand("vstoys.registers.export", exportRegisters));
+
+  context.subscriptions.push(registerRecordedCommand("vstoys.registers.import", (args) => importRegisters(args?.mode)));
+
+  context.subscriptions.push(
+    registerRecordedCommand("vstoys.registers.recordMacro", async (args) => {
+      if (macroRecorder.recordingRegister !== undefined) {
+        macroRecorder.stop();
+        return;
+      }
+
+      const registerName =
+        parseRegisterArgs(args)?.registerName ?? parseRegisterName(await quickPick.showCopyPicker())?.registerName;
+      if (registerName !== undefined) {
+        macroRecorder.start(registerName);
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    registerRecordedCommand("vstoys.registers.stopRecordingMacro", () => macroRecorder.stop())
   );
 
   context.subscriptions.push(
-    vscode.commands.registerCommand("vstoys.registers.showRegisterCopyPicker", showRegisterCopyPicker)
+    // e.g. `{ "register": "q", "count": 3 }`
+    registerRecordedCommand("vstoys.registers.replayMacro", async (args) => {
+      const registerName =
+        parseRegisterArgs(args)?.registerName ?? (await quickPick.showRegisterPastePicker())?.registerName;
+      if (registerName === undefined) {
+        return;
+      }
+      const count = Math.max(1, Math.floor(Number(args?.count ?? 1)) || 1);
+      await macroRecorder.replay(registerName, count);
+    })
   );
 
   context.subscriptions.push(
-    vscode.commands.registerCommand("vstoys.registers.clearAllRegisters", () => {
+    registerRecordedCommand("vstoys.registers.clearAllRegisters", () => {
       registerManager.clear();
       vscode.window.showInformationMessage("All registers cleared");
       printRegistersOutput("All registers cleared");
     })
   );
 
+  /**
+   * Runs the native copy or cut and records what it put on the clipboard in the history.
+   * An empty selection copies its line, unless `editor.emptySelectionClipboard` is off and nothing is copied.
+   * Whether something was copied is decided from the selections, so copying the same text twice records it twice.
+   */
+  const clipboardAction = async (kind: YankEvent["kind"]) => {
+    const editor = vscode.window.activeTextEditor;
+    let origin: YankOrigin | undefined;
+    let copied = false;
+    if (editor) {
+      const emptySelectionClipboard = vscode.workspace
+        .getConfiguration("editor", editor.document)
+        .get<boolean>("emptySelectionClipboard", true);
+      copied = editor.selections.some(
+        (selection) =>
+          !selection.isEmpty ||
+          (emptySelectionClipboard && !editor.document.lineAt(selection.active.line).range.isEmpty)
+      );
+      if (editor.selections.length === 1) {
+        const selection = editor.selection;
+        origin = selection.isEmpty
+          ? { document: editor.document, range: editor.document.lineAt(selection.active.line).range, linewise: true }
+          : { document: editor.document, range: selection };
+      }
+    }
+
+    await vscode.commands.executeCommand(
+      kind === "delete" ? "editor.action.clipboardCutAction" : "editor.action.clipboardCopyAction"
+    );
+    if (copied) {
+      recordYank(await vscode.env.clipboard.readText(), kind, "clipboard", origin);
+    }
+  };
+
+  context.subscriptions.push(registerRecordedCommand("vstoys.registers.clipboardCopy", () => clipboardAction("yank")));
+
+  context.subscriptions.push(registerRecordedCommand("vstoys.registers.clipboardCut", () => clipboardAction("delete")));
+
+  // Keep a history of the text copied and deleted by the other modules in the numbered registers
+  context.subscriptions.push(
+    onDidYank((event) => {
+      const history = vscode.workspace.getConfiguration("vstoys.registers").get<string>("history", "off");
+      if (history === "all" || (history === "deletes" && event.kind === "delete")) {
+        registerManager.pushHistory(event.text, {
+          source: `${event.kind} from ${event.source}`,
+          location: event.origin && toRegisterLocation(event.origin.document, event.origin.range),
+          languageId: event.origin?.document.languageId,
+          linewise: event.origin?.linewise,
+        });
+        printRegistersOutput(
+          `History: ${event.kind} from ${event.source}: ${registerManager.getPreview(event.text, 20)}`
+        );
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration(async (event) => {
+      if (
+        event.affectsConfiguration("vstoys.registers.persistence") ||
+        event.affectsConfiguration("vstoys.registers.persistenceOverrides")
+      ) {
+        // Move the registers to the state they are now persisted in
+        await registerManager.savePersistedRegisters();
+        printRegistersOutput("Register persistence changed, registers saved");
+      }
+    })
+  );
+
   vscode.commands.executeCommand("setContext", "vstoys.registers.active", true);
 
   printRegistersOutput(`${name} activated`, false);
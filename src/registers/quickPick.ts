@@ -1,92 +1,144 @@
 import * as vscode from "vscode";
-import { RegisterManager, RegisterContent } from "./registerManager";
+import { RegisterManager, RegisterContent, fromRegisterLocation } from "./registerManager";
+import { applyTransforms, getTransforms } from "./transforms";
 
 export interface RegisterQuickPickItem extends vscode.QuickPickItem {
-  registerNumber: number;
+  registerName: string;
   content: RegisterContent;
 }
 
+interface TransformQuickPickItem extends vscode.QuickPickItem {
+  // Undefined for the item that pastes with the transforms picked so far
+  transformName?: string;
+}
+
+// The register picked to paste from, and the transforms to apply to its content first
+export interface RegisterPasteSelection {
+  registerName: string;
+  transforms: string[];
+}
+
+const goToSourceButton: vscode.QuickInputButton = {
+  iconPath: new vscode.ThemeIcon("go-to-file"),
+  tooltip: "Go to where the register was copied from",
+};
+
+const transformButton: vscode.QuickInputButton = {
+  iconPath: new vscode.ThemeIcon("wand"),
+  tooltip: "Transform before pasting",
+};
+
 export class RegisterQuickPick {
   constructor(
     private registerManager: RegisterManager,
     private printOutput: (content: string, reveal?: boolean) => void
   ) {}
 
-  public async showCopyPicker(): Promise<number | undefined> {
+  private createItem(
+    registerName: string,
+    maxPreviewLength: number,
+    offerTransforms: boolean = false
+  ): RegisterQuickPickItem {
+    const registerContent = this.registerManager.getAllRegisters().get(registerName);
+    const hasContent = this.registerManager.hasContent(registerName);
+    const buttons: vscode.QuickInputButton[] = [];
+    if (hasContent && offerTransforms) {
+      buttons.push(transformButton);
+    }
+    if (hasContent && registerContent!.location) {
+      buttons.push(goToSourceButton);
+    }
+
+    return {
+      label: `Register ${registerName}`,
+      description: hasContent ? this.registerManager.getPreview(registerContent!.text, maxPreviewLength) : "Empty",
+      detail: hasContent ? this.formatDetail(registerContent!) : "No content stored",
+      registerName: registerName,
+      content: hasContent ? registerContent! : { text: "", timestamp: new Date() },
+      buttons: buttons,
+    };
+  }
+
+  /**
+   * Closes the picker and opens the document the register was copied from, selecting the copied text
+   */
+  private async goToSource(quickPick: vscode.QuickPick<RegisterQuickPickItem>, item: RegisterQuickPickItem) {
+    if (!item.content.location) {
+      return;
+    }
+
+    quickPick.hide();
+    const { uri, range } = fromRegisterLocation(item.content.location);
+    try {
+      await vscode.window.showTextDocument(uri, { selection: range });
+      this.printOutput(`Opened the source of register ${item.registerName}: ${uri.toString()}`);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Can't open the source of register ${item.registerName}: ${error}`);
+    }
+  }
+
+  /**
+   * Whether the typed value names a register, and no longer register name starts with it (e.g. "1" while "10" exists)
+   */
+  private isQuickSelection(value: string): boolean {
+    const registerNames = this.registerManager.getRegisterNames();
+    return (
+      registerNames.includes(value) &&
+      !registerNames.some((registerName) => registerName !== value && registerName.startsWith(value))
+    );
+  }
+
+  /**
+   * @returns The picked register name, in uppercase when a letter register was typed in uppercase to append to it
+   */
+  public async showCopyPicker(): Promise<string | undefined> {
     const config = vscode.workspace.getConfiguration("vstoys.registers");
     const maxPreviewLength = config.get<number>("maxPreviewLength", 200);
 
-    // Show ALL registers (1-5), regardless of whether they have content
-    const items: RegisterQuickPickItem[] = [];
-    for (let i = 1; i <= 5; i++) {
-      const hasContent = this.registerManager.hasContent(i);
-
-      let description: string;
-      let detail: string;
-
-      if (hasContent) {
-        const content = this.registerManager.getFromRegister(i)!;
-        const registerContent = this.registerManager.getAllRegisters().get(i)!;
-        description = this.registerManager.getPreview(content, maxPreviewLength);
-        detail = `Stored: ${this.formatTimestamp(registerContent.timestamp)}`;
-      } else {
-        description = "Empty";
-        detail = "No content stored";
-      }
-
-      items.push({
-        label: `Register ${i}`,
-        description: description,
-        detail: detail,
-        registerNumber: i,
-        content: hasContent ? this.registerManager.getAllRegisters().get(i)! : { text: "", timestamp: new Date() },
-      });
-    }
+    // Show ALL registers, regardless of whether they have content
+    const items = this.registerManager
+      .getRegisterNames()
+      .map((registerName) => this.createItem(registerName, maxPreviewLength));
 
     const quickPick = vscode.window.createQuickPick<RegisterQuickPickItem>();
     quickPick.items = items;
     quickPick.title = "Select Register to Copy To";
-    quickPick.placeholder = "Choose a register to save current selection (or press 1-5 for quick selection)";
+    quickPick.placeholder =
+      "Choose a register to save current selection (or type its name for quick selection, in uppercase to append)";
     quickPick.canSelectMany = false;
 
-    return new Promise<number | undefined>((resolve) => {
+    return new Promise<string | undefined>((resolve) => {
       quickPick.onDidChangeSelection((selection) => {
         if (selection.length > 0) {
           const selected = selection[0];
-          this.printOutput(`Selected register ${selected.registerNumber} for copying`);
+          this.printOutput(`Selected register ${selected.registerName} for copying`);
           quickPick.hide();
-          resolve(selected.registerNumber);
+          resolve(selected.registerName);
         }
       });
 
       quickPick.onDidAccept(() => {
         const selected = quickPick.selectedItems[0];
         if (selected) {
-          this.printOutput(`Selected register ${selected.registerNumber} for copying`);
+          this.printOutput(`Selected register ${selected.registerName} for copying`);
           quickPick.hide();
-          resolve(selected.registerNumber);
+          resolve(selected.registerName);
         }
       });
 
-      // Handle keyboard shortcuts for direct register selection (1-5)
+      // Handle keyboard shortcuts for direct register selection
       quickPick.onDidChangeValue((value) => {
-        // Check if the user typed a number 1-5
-        if (value.length === 1 && /^[1-5]$/.test(value)) {
-          const registerNumber = parseInt(value);
-
-          // Always allow copying to any register (1-5), regardless of showEmptyRegisters setting
-          this.printOutput(`Keyboard shortcut: Selected register ${registerNumber} for copying`);
+        // Always allow copying to any register, regardless of showEmptyRegisters setting
+        const isAppend = /^[A-Z]$/.test(value) && this.isQuickSelection(value.toLowerCase());
+        if (this.isQuickSelection(value) || isAppend) {
+          this.printOutput(`Keyboard shortcut: Selected register ${value} for copying`);
           quickPick.hide();
-          resolve(registerNumber);
-          return;
-        }
-
-        // Clear the value to prevent it from interfering with filtering
-        if (value.length === 1 && /^[1-5]$/.test(value)) {
-          setTimeout(() => (quickPick.value = ""), 0);
+          resolve(value);
         }
       });
 
+      quickPick.onDidTriggerItemButton((event) => this.goToSource(quickPick, event.item));
+
       quickPick.onDidHide(() => {
         resolve(undefined);
       });
@@ -95,40 +147,20 @@ export class RegisterQuickPick {
     });
   }
 
-  public async showRegisterPastePicker(): Promise<string | undefined> {
+  /**
+   * @param offerTransforms Add a button to each register that picks transforms for its content before pasting.
+   * @returns The picked register, if it has content, with the picked transforms
+   */
+  public async showRegisterPastePicker(offerTransforms: boolean = false): Promise<RegisterPasteSelection | undefined> {
     const config = vscode.workspace.getConfiguration("vstoys.registers");
     const maxPreviewLength = config.get<number>("maxPreviewLength", 200);
     const showEmptyRegisters = config.get<boolean>("showEmptyRegisters", true);
 
-    const items: RegisterQuickPickItem[] = [];
-
-    for (let i = 1; i <= 5; i++) {
-      const hasContent = this.registerManager.hasContent(i);
-
-      // Only include register if it has content OR if we're showing empty registers
-      if (hasContent || showEmptyRegisters) {
-        let description: string;
-        let detail: string;
-
-        if (hasContent) {
-          const content = this.registerManager.getFromRegister(i)!;
-          const registerContent = this.registerManager.getAllRegisters().get(i)!;
-          description = this.registerManager.getPreview(content, maxPreviewLength);
-          detail = `Stored: ${this.formatTimestamp(registerContent.timestamp)}`;
-        } else {
-          description = "Empty";
-          detail = "No content stored";
-        }
-
-        items.push({
-          label: `Register ${i}`,
-          description: description,
-          detail: detail,
-          registerNumber: i,
-          content: hasContent ? this.registerManager.getAllRegisters().get(i)! : { text: "", timestamp: new Date() },
-        });
-      }
-    }
+    // Only include a register if it has content OR if we're showing empty registers
+    const items = this.registerManager
+      .getRegisterNames()
+      .filter((registerName) => showEmptyRegisters || this.registerManager.hasContent(registerName))
+      .map((registerName) => this.createItem(registerName, maxPreviewLength, offerTransforms));
 
     if (items.length === 0) {
       vscode.window.showInformationMessage("No registers contain content");
@@ -138,83 +170,140 @@ export class RegisterQuickPick {
     const quickPick = vscode.window.createQuickPick<RegisterQuickPickItem>();
     quickPick.items = items;
     quickPick.title = "Select Register to Paste From";
-    quickPick.placeholder = "Choose a register to paste from (or press 1-5 for quick selection)";
+    quickPick.placeholder = "Choose a register to paste from (or type its name for quick selection)";
     quickPick.canSelectMany = false;
 
-    return new Promise<string | undefined>((resolve) => {
+    return new Promise<RegisterPasteSelection | undefined>((resolve) => {
+      // Hiding the picker must not cancel the transform step that follows it
+      let picked = false;
+
+      const pickRegister = async (registerName: string, shortcut: boolean, transform: boolean = false) => {
+        picked = true;
+        quickPick.hide();
+        const content = this.registerManager.getFromRegister(registerName);
+        if (!content || !this.registerManager.hasContent(registerName)) {
+          vscode.window.showWarningMessage(`Register ${registerName} is empty`);
+          resolve(undefined);
+          return;
+        }
+
+        this.printOutput(
+          `${shortcut ? "Keyboard shortcut: " : ""}Selected register ${registerName}: ${this.registerManager.getPreview(
+            content,
+            20
+          )}`
+        );
+        if (!transform) {
+          resolve({ registerName, transforms: [] });
+          return;
+        }
+
+        const transforms = await this.showTransformPicker(registerName, content, maxPreviewLength);
+        resolve(transforms && { registerName, transforms });
+      };
+
       quickPick.onDidChangeSelection((selection) => {
         if (selection.length > 0) {
-          const selected = selection[0];
-          if (this.registerManager.hasContent(selected.registerNumber)) {
-            const content = this.registerManager.getFromRegister(selected.registerNumber)!;
-            this.printOutput(
-              `Selected register ${selected.registerNumber}: ${this.registerManager.getPreview(content, 20)}`
-            );
-            quickPick.hide();
-            resolve(content);
-          } else {
-            vscode.window.showWarningMessage(`Register ${selected.registerNumber} is empty`);
-            quickPick.hide();
-            resolve(undefined);
-          }
+          pickRegister(selection[0].registerName, false);
         }
       });
 
       quickPick.onDidAccept(() => {
         const selected = quickPick.selectedItems[0];
         if (selected) {
-          if (this.registerManager.hasContent(selected.registerNumber)) {
-            const content = this.registerManager.getFromRegister(selected.registerNumber)!;
-            this.printOutput(
-              `Selected register ${selected.registerNumber}: ${this.registerManager.getPreview(content, 20)}`
-            );
-            quickPick.hide();
-            resolve(content);
-          } else {
-            vscode.window.showWarningMessage(`Register ${selected.registerNumber} is empty`);
-            quickPick.hide();
-            resolve(undefined);
-          }
+          pickRegister(selected.registerName, false);
         }
       });
 
-      // Handle keyboard shortcuts for direct register selection (1-5)
+      // Handle keyboard shortcuts for direct register selection
       quickPick.onDidChangeValue((value) => {
-        // Check if the user typed a number 1-5
-        if (value.length === 1 && /^[1-5]$/.test(value)) {
-          const registerNumber = parseInt(value);
-
-          // Check if this register has content by looking directly at the manager
-          if (this.registerManager.hasContent(registerNumber)) {
-            const content = this.registerManager.getFromRegister(registerNumber);
-            if (content) {
-              this.printOutput(
-                `Keyboard shortcut: Selected register ${registerNumber}: ${this.registerManager.getPreview(
-                  content,
-                  20
-                )}`
-              );
-              quickPick.hide();
-              resolve(content);
-              return;
-            }
-          } else {
-            // Register is empty
-            vscode.window.showWarningMessage(`Register ${registerNumber} is empty`);
-            quickPick.hide();
-            resolve(undefined);
-            return;
-          }
+        if (this.isQuickSelection(value)) {
+          pickRegister(value, true);
         }
+      });
 
-        // If not a direct number shortcut, allow normal filtering
-        // Clear the value to prevent it from interfering with filtering
-        if (value.length === 1 && /^[1-5]$/.test(value)) {
-          setTimeout(() => (quickPick.value = ""), 0);
+      quickPick.onDidTriggerItemButton((event) => {
+        if (event.button === transformButton) {
+          pickRegister(event.item.registerName, false, true);
+        } else {
+          this.goToSource(quickPick, event.item);
         }
       });
 
       quickPick.onDidHide(() => {
+        if (!picked) {
+          resolve(undefined);
+        }
+      });
+
+      quickPick.show();
+    });
+  }
+
+  /**
+   * Builds a chain of transforms one pick at a time, previewing the result of each transform.
+   * The back button removes the last transform from the chain.
+   * @returns The names of the picked transforms in order, undefined when cancelled
+   */
+  private async showTransformPicker(
+    registerName: string,
+    text: string,
+    maxPreviewLength: number
+  ): Promise<string[] | undefined> {
+    const transforms = getTransforms(this.printOutput);
+    const chain: string[] = [];
+
+    const quickPick = vscode.window.createQuickPick<TransformQuickPickItem>();
+    quickPick.placeholder = "Pick transforms to apply one after the other, then paste";
+    quickPick.canSelectMany = false;
+
+    const update = () => {
+      const transformed = applyTransforms(text, chain, transforms);
+      quickPick.title =
+        chain.length > 0
+          ? `Transform Register ${registerName}: ${chain.join(" › ")}`
+          : `Transform Register ${registerName}`;
+      quickPick.buttons = chain.length > 0 ? [vscode.QuickInputButtons.Back] : [];
+      quickPick.value = "";
+      quickPick.items = [
+        {
+          label: "$(check) Paste",
+          description: this.registerManager.getPreview(transformed, maxPreviewLength),
+        },
+        { label: "", kind: vscode.QuickPickItemKind.Separator },
+        ...transforms.map((transform) => ({
+          label: transform.name,
+          description: transform.description,
+          detail: this.registerManager.getPreview(transform.apply(transformed), maxPreviewLength),
+          transformName: transform.name,
+        })),
+      ];
+    };
+    update();
+
+    return new Promise<string[] | undefined>((resolve) => {
+      quickPick.onDidAccept(() => {
+        const selected = quickPick.selectedItems[0];
+        if (!selected) {
+          return;
+        }
+        if (selected.transformName === undefined) {
+          this.printOutput(`Transforming register ${registerName} with: ${chain.join(", ") || "nothing"}`);
+          resolve([...chain]);
+          quickPick.hide();
+          return;
+        }
+        chain.push(selected.transformName);
+        update();
+      });
+
+      quickPick.onDidTriggerButton(() => {
+        chain.pop();
+        update();
+      });
+
+      quickPick.onDidHide(() => {
+        quickPick.dispose();
         resolve(undefined);
       });
 
@@ -222,6 +311,24 @@ export class RegisterQuickPick {
     });
   }
 
+  private formatDetail(content: RegisterContent): string {
+    const parts = [`Stored: ${this.formatTimestamp(content.timestamp)}`];
+    if (content.source) {
+      parts.push(content.source);
+    }
+    if (content.location) {
+      const { uri, range } = fromRegisterLocation(content.location);
+      parts.push(`from ${vscode.workspace.asRelativePath(uri)}:${range.start.line + 1}`);
+    }
+    if (content.linewise) {
+      parts.push("linewise");
+    }
+    if (content.macro) {
+      parts.push("macro");
+    }
+    return parts.join(" · ");
+  }
+
   private formatTimestamp(timestamp: Date): string {
     const now = new Date();
     const diff = now.getTime() - timestamp.getTime();
@@ -0,0 +1,145 @@
+import * as vscode from "vscode";
+import { RegisterContent, RegisterDetails, RegisterLocation } from "./registerManager";
+
+// Bump when the file format changes in a way older versions can't read
+export const registerExportVersion = 1;
+
+// Where registers are exported to and imported from, relative to the workspace folder
+export const registerExportPath = ".vscode/vstoys-registers.json";
+
+// Locations inside the workspace folder are kept relative to it, so the file works in every clone of the repo
+interface ExportedLocation extends Omit<RegisterLocation, "uri"> {
+  path?: string;
+  uri?: string;
+}
+
+interface ExportedRegister extends Omit<RegisterDetails, "location"> {
+  text: string;
+  timestamp: string;
+  location?: ExportedLocation;
+}
+
+interface RegisterExport {
+  version: number;
+  registers: Record<string, ExportedRegister>;
+}
+
+function exportLocation(location: RegisterLocation, folder: vscode.WorkspaceFolder): ExportedLocation {
+  const { uri, ...range } = location;
+  const folderPath = folder.uri.toString().replace(/\/?$/, "/");
+  if (uri.startsWith(folderPath)) {
+    return { ...range, path: decodeURIComponent(uri.substring(folderPath.length)) };
+  }
+  return { ...range, uri };
+}
+
+function isPosition(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+function importLocation(location: unknown, folder: vscode.WorkspaceFolder): RegisterLocation | undefined {
+  if (typeof location !== "object" || location === null) {
+    return undefined;
+  }
+  const { path, uri, startLine, startCharacter, endLine, endCharacter } = location as Partial<ExportedLocation>;
+  if (![startLine, startCharacter, endLine, endCharacter].every(isPosition)) {
+    return undefined;
+  }
+  const range = {
+    startLine: startLine!,
+    startCharacter: startCharacter!,
+    endLine: endLine!,
+    endCharacter: endCharacter!,
+  };
+  if (typeof path === "string") {
+    return { ...range, uri: vscode.Uri.joinPath(folder.uri, path).toString() };
+  }
+  return typeof uri === "string" ? { ...range, uri } : undefined;
+}
+
+/**
+ * Serializes registers with their metadata to the json of an export file.
+ */
+export function serializeRegisters(
+  registers: Array<{ name: string; content: RegisterContent }>,
+  folder: vscode.WorkspaceFolder
+): string {
+  const exported: RegisterExport = { version: registerExportVersion, registers: {} };
+  for (const { name, content } of registers) {
+    exported.registers[name] = {
+      ...content,
+      timestamp: content.timestamp.toISOString(),
+      location: content.location && exportLocation(content.location, folder),
+    };
+  }
+  return JSON.stringify(exported, null, 2) + "\n";
+}
+
+/**
+ * Reads the registers from the json of an export file.
+ * Registers without text are skipped and invalid fields are dropped, both are listed in the problems.
+ * @throws When the json is invalid, or was written by a newer version of the export format.
+ */
+export function parseRegisters(
+  json: string,
+  folder: vscode.WorkspaceFolder
+): { registers: Map<string, RegisterContent>; problems: string[] } {
+  const exported = JSON.parse(json) as Partial<RegisterExport>;
+  if (typeof exported?.version !== "number" || typeof exported.registers !== "object" || !exported.registers) {
+    throw new Error("Not a register export, expected a version and registers");
+  }
+  if (exported.version > registerExportVersion) {
+    throw new Error(
+      `Register export version ${exported.version} is newer than the supported version ${registerExportVersion}`
+    );
+  }
+
+  const registers = new Map<string, RegisterContent>();
+  const problems: string[] = [];
+  for (const [registerName, register] of Object.entries(exported.registers)) {
+    if (typeof register?.text !== "string") {
+      problems.push(`Register ${registerName}: skipped, it has no text`);
+      continue;
+    }
+
+    const content: RegisterContent = { text: register.text, timestamp: new Date(register.timestamp) };
+    if (isNaN(content.timestamp.getTime())) {
+      content.timestamp = new Date();
+    }
+    // Keeps a field that is missing or valid, drops and reports an invalid one
+    const importField = <K extends keyof RegisterDetails>(
+      field: K,
+      value: RegisterDetails[K] | undefined,
+      isValid: boolean,
+      expected: string
+    ) => {
+      if (register[field] === undefined) {
+        return;
+      }
+      if (isValid && value !== undefined) {
+        content[field] = value;
+      } else {
+        problems.push(`Register ${registerName}: dropped ${field}, expected ${expected}`);
+      }
+    };
+
+    importField("source", register.source, typeof register.source === "string", "a string");
+    importField("languageId", register.languageId, typeof register.languageId === "string", "a string");
+    importField(
+      "fragments",
+      register.fragments,
+      Array.isArray(register.fragments) && register.fragments.every((fragment) => typeof fragment === "string"),
+      "a list of strings"
+    );
+    importField(
+      "location",
+      importLocation(register.location, folder),
+      true,
+      "a path or uri with line and character numbers"
+    );
+    importField("linewise", register.linewise, typeof register.linewise === "boolean", "true or false");
+    importField("macro", register.macro, typeof register.macro === "boolean", "true or false");
+    registers.set(registerName, content);
+  }
+  return { registers, problems };
+}
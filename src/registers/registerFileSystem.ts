@@ -0,0 +1,100 @@
+import * as vscode from "vscode";
+import { RegisterManager } from "./registerManager";
+
+export const registerScheme = "vstoys-register";
+
+/**
+ * @returns The uri of the document that shows a register, e.g. `vstoys-register:/a`
+ */
+export function getRegisterUri(registerName: string): vscode.Uri {
+  return vscode.Uri.from({ scheme: registerScheme, path: `/${registerName}` });
+}
+
+/**
+ * Exposes every register as a file under the `vstoys-register:` scheme.
+ * Opening one shows its content in an editor, and saving the document writes the content back into the register.
+ */
+export class RegisterFileSystemProvider implements vscode.FileSystemProvider {
+  private readonly changeEmitter = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+  readonly onDidChangeFile = this.changeEmitter.event;
+  private readonly registerListener: vscode.Disposable;
+
+  constructor(private registerManager: RegisterManager) {
+    // Let open register documents pick up copies made while they are open
+    this.registerListener = registerManager.onDidChange(() => {
+      this.changeEmitter.fire(
+        registerManager
+          .getRegisterNames()
+          .map((registerName) => ({ type: vscode.FileChangeType.Changed, uri: getRegisterUri(registerName) }))
+      );
+    });
+  }
+
+  private getRegisterName(uri: vscode.Uri): string {
+    const registerName = uri.path.replace(/^\//, "");
+    if (!this.registerManager.isValidRegister(registerName)) {
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+    return registerName;
+  }
+
+  stat(uri: vscode.Uri): vscode.FileStat {
+    if (uri.path === "/") {
+      return { type: vscode.FileType.Directory, ctime: 0, mtime: 0, size: 0 };
+    }
+
+    const content = this.registerManager.getRegisterContent(this.getRegisterName(uri));
+    const mtime = content?.timestamp.getTime() ?? 0;
+    return {
+      type: vscode.FileType.File,
+      ctime: mtime,
+      mtime: mtime,
+      size: Buffer.byteLength(content?.text ?? "", "utf8"),
+    };
+  }
+
+  readDirectory(): [string, vscode.FileType][] {
+    return this.registerManager.getRegisterNames().map((registerName) => [registerName, vscode.FileType.File]);
+  }
+
+  readFile(uri: vscode.Uri): Uint8Array {
+    const content = this.registerManager.getRegisterContent(this.getRegisterName(uri));
+    return Buffer.from(content?.text ?? "", "utf8");
+  }
+
+  writeFile(uri: vscode.Uri, content: Uint8Array): void {
+    const registerName = this.getRegisterName(uri);
+    const text = Buffer.from(content).toString("utf8");
+
+    // Saving an empty document empties the register
+    if (text.trim() === "") {
+      this.registerManager.clearRegister(registerName);
+    } else {
+      // The edited text no longer matches the fragments of each cursor, but it still comes from the same place
+      const { fragments, ...details } = this.registerManager.getRegisterContent(registerName) ?? {};
+      this.registerManager.storeInRegister(registerName, text, details);
+    }
+  }
+
+  delete(uri: vscode.Uri): void {
+    this.registerManager.clearRegister(this.getRegisterName(uri));
+  }
+
+  watch(): vscode.Disposable {
+    // Every change is reported through the register manager
+    return new vscode.Disposable(() => {});
+  }
+
+  createDirectory(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  rename(oldUri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(oldUri);
+  }
+
+  dispose(): void {
+    this.registerListener.dispose();
+    this.changeEmitter.dispose();
+  }
+}
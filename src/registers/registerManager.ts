@@ -1,52 +1,185 @@
+import * as vscode from "vscode";
+
+// Where the content of a register was copied from, kept as plain values so it can be persisted
+export interface RegisterLocation {
+  uri: string;
+  startLine: number;
+  startCharacter: number;
+  endLine: number;
+  endCharacter: number;
+}
+
 export interface RegisterContent {
   text: string;
   timestamp: Date;
+  // Where history entries come from, e.g. "delete from motions"
+  source?: string;
+  // The text of each cursor when it was copied with multiple cursors
+  fragments?: string[];
+  location?: RegisterLocation;
+  languageId?: string;
+  // Whole lines were copied, they are pasted as lines of their own
+  linewise?: boolean;
+  // The text is a recorded macro, the json of its steps
+  macro?: boolean;
+}
+
+// Everything stored with the text of a register
+export type RegisterDetails = Omit<RegisterContent, "text" | "timestamp">;
+
+export function toRegisterLocation(document: vscode.TextDocument, range: vscode.Range): RegisterLocation {
+  return {
+    uri: document.uri.toString(),
+    startLine: range.start.line,
+    startCharacter: range.start.character,
+    endLine: range.end.line,
+    endCharacter: range.end.character,
+  };
+}
+
+export function fromRegisterLocation(location: RegisterLocation): { uri: vscode.Uri; range: vscode.Range } {
+  return {
+    uri: vscode.Uri.parse(location.uri),
+    range: new vscode.Range(location.startLine, location.startCharacter, location.endLine, location.endCharacter),
+  };
+}
+
+// Where the contents of a register are kept across sessions
+export type RegisterPersistence = "none" | "workspace" | "global";
+
+// How a register is stored in the workspace or global state
+interface PersistedRegister extends RegisterDetails {
+  text: string;
+  timestamp: number;
 }
 
+const persistedRegistersKey = "vstoys.registers.contents";
+
+// The named registers, after the numbered ones
+const letterRegisters = "abcdefghijklmnopqrstuvwxyz".split("");
+
 export class RegisterManager {
-  private registers: Map<number, RegisterContent> = new Map();
-  private readonly maxRegisters = 5;
+  private registers: Map<string, RegisterContent> = new Map();
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+
+  /**
+   * Fires whenever the content of a register changes
+   */
+  public readonly onDidChange = this.changeEmitter.event;
 
-  public storeInRegister(registerNumber: number, text: string): void {
-    if (registerNumber < 1 || registerNumber > this.maxRegisters) {
-      throw new Error(`Register number must be between 1 and ${this.maxRegisters}`);
+  constructor(private context?: vscode.ExtensionContext) {
+    this.loadPersistedRegisters();
+  }
+
+  private registersChanged(): void {
+    this.savePersistedRegisters();
+    this.changeEmitter.fire();
+  }
+
+  public dispose(): void {
+    this.changeEmitter.dispose();
+  }
+
+  /**
+   * How many numbered registers there are, from `vstoys.registers.count`
+   */
+  public get numberedRegisterCount(): number {
+    const count = vscode.workspace.getConfiguration("vstoys.registers").get<number>("count", 5);
+    return Math.max(1, Math.floor(count));
+  }
+
+  /**
+   * The names of every register, the numbered registers first and then the letters a-z
+   */
+  public getRegisterNames(): string[] {
+    const numbered = Array.from({ length: this.numberedRegisterCount }, (_, index) => String(index + 1));
+    return [...numbered, ...letterRegisters];
+  }
+
+  public isValidRegister(registerName: string): boolean {
+    return this.getRegisterNames().includes(registerName);
+  }
+
+  public storeInRegister(registerName: string, text: string, details: RegisterDetails = {}): void {
+    if (!this.isValidRegister(registerName)) {
+      throw new Error(`Register must be a number between 1 and ${this.numberedRegisterCount} or a letter a-z`);
     }
 
     if (!text || text.trim() === "") {
       return;
     }
 
-    this.registers.set(registerNumber, {
+    this.registers.set(registerName, {
+      ...details,
       text: text,
       timestamp: new Date(),
     });
+    this.registersChanged();
+  }
+
+  /**
+   * Appends text to a register with the `vstoys.registers.appendSeparator` in between, like vim's uppercase registers.
+   * Fragments are appended one by one when both were copied with the same number of cursors, and dropped otherwise.
+   * The register keeps the source location of its first copy, and stays linewise only if both copies are.
+   */
+  public appendToRegister(registerName: string, text: string, details: RegisterDetails = {}): void {
+    const existing = this.registers.get(registerName);
+    if (!existing || !this.hasContent(registerName)) {
+      this.storeInRegister(registerName, text, details);
+      return;
+    }
+    const fragments = details.fragments;
+
+    if (!text || text.trim() === "") {
+      return;
+    }
+
+    const separator = vscode.workspace.getConfiguration("vstoys.registers").get<string>("appendSeparator", "\n");
+    const appendedFragments =
+      existing.fragments && fragments && existing.fragments.length === fragments.length
+        ? existing.fragments.map((fragment, index) => fragment + separator + fragments[index])
+        : undefined;
+
+    this.storeInRegister(registerName, existing.text + separator + text, {
+      ...existing,
+      fragments: appendedFragments,
+      linewise: existing.linewise && details.linewise,
+    });
+  }
+
+  public getRegisterContent(registerName: string): RegisterContent | undefined {
+    if (!this.isValidRegister(registerName)) {
+      return undefined;
+    }
+
+    return this.registers.get(registerName);
   }
 
-  public getFromRegister(registerNumber: number): string | undefined {
-    if (registerNumber < 1 || registerNumber > this.maxRegisters) {
+  public getFromRegister(registerName: string): string | undefined {
+    if (!this.isValidRegister(registerName)) {
       return undefined;
     }
 
-    const content = this.registers.get(registerNumber);
+    const content = this.registers.get(registerName);
     return content?.text;
   }
 
-  public getAllRegisters(): Map<number, RegisterContent> {
+  public getAllRegisters(): Map<string, RegisterContent> {
     return new Map(this.registers);
   }
 
-  public hasContent(registerNumber: number): boolean {
-    return this.registers.has(registerNumber) && this.registers.get(registerNumber)!.text.trim() !== "";
+  public hasContent(registerName: string): boolean {
+    return this.registers.has(registerName) && this.registers.get(registerName)!.text.trim() !== "";
   }
 
-  public getNonEmptyRegisters(): Array<{ number: number; content: RegisterContent }> {
-    const nonEmpty: Array<{ number: number; content: RegisterContent }> = [];
+  public getNonEmptyRegisters(): Array<{ name: string; content: RegisterContent }> {
+    const nonEmpty: Array<{ name: string; content: RegisterContent }> = [];
 
-    for (let i = 1; i <= this.maxRegisters; i++) {
-      if (this.hasContent(i)) {
+    for (const registerName of this.getRegisterNames()) {
+      if (this.hasContent(registerName)) {
         nonEmpty.push({
-          number: i,
-          content: this.registers.get(i)!,
+          name: registerName,
+          content: this.registers.get(registerName)!,
         });
       }
     }
@@ -54,13 +187,129 @@ export class RegisterManager {
     return nonEmpty;
   }
 
+  /**
+   * Pushes text into the history ring formed by the numbered registers, like vim's "1-"9.
+   * Register 1 gets the new text, every other numbered register moves one down and the last one is dropped.
+   */
+  public pushHistory(text: string, details: RegisterDetails): void {
+    if (!text || text.trim() === "" || this.registers.get("1")?.text === text) {
+      return;
+    }
+
+    for (let i = this.numberedRegisterCount; i > 1; i--) {
+      const previous = this.registers.get(String(i - 1));
+      if (previous) {
+        this.registers.set(String(i), previous);
+      } else {
+        this.registers.delete(String(i));
+      }
+    }
+
+    this.registers.set("1", { ...details, text: text, timestamp: new Date() });
+    this.registersChanged();
+  }
+
   public clear(): void {
     this.registers.clear();
+    this.registersChanged();
+  }
+
+  /**
+   * Loads registers from an export, keeping their timestamps. Unknown register names and empty content are skipped.
+   * @param replace Empty every register first instead of merging, imported registers win either way.
+   * @returns The names of the imported registers
+   */
+  public importRegisters(registers: Map<string, RegisterContent>, replace: boolean): string[] {
+    if (replace) {
+      this.registers.clear();
+    }
+
+    const imported: string[] = [];
+    for (const [registerName, content] of registers) {
+      if (this.isValidRegister(registerName) && content.text.trim() !== "") {
+        this.registers.set(registerName, content);
+        imported.push(registerName);
+      }
+    }
+
+    this.registersChanged();
+    return imported;
   }
 
-  public clearRegister(registerNumber: number): void {
-    if (registerNumber >= 1 && registerNumber <= this.maxRegisters) {
-      this.registers.delete(registerNumber);
+  public clearRegister(registerName: string): void {
+    if (this.isValidRegister(registerName)) {
+      this.registers.delete(registerName);
+      this.registersChanged();
+    }
+  }
+
+  /**
+   * The persistence of a register, from `vstoys.registers.persistenceOverrides` or else `vstoys.registers.persistence`
+   */
+  public getPersistence(registerName: string): RegisterPersistence {
+    const config = vscode.workspace.getConfiguration("vstoys.registers");
+    const overrides = config.get<Record<string, RegisterPersistence>>("persistenceOverrides", {});
+    return overrides[registerName] ?? config.get<RegisterPersistence>("persistence", "workspace");
+  }
+
+  /**
+   * Load the registers persisted in the workspace and global state, each from the state its persistence points at
+   */
+  private loadPersistedRegisters(): void {
+    if (!this.context) {
+      return;
+    }
+
+    const states: [Exclude<RegisterPersistence, "none">, vscode.Memento][] = [
+      ["workspace", this.context.workspaceState],
+      ["global", this.context.globalState],
+    ];
+
+    for (const [persistence, state] of states) {
+      try {
+        const persistedRegisters = state.get<Record<string, PersistedRegister>>(persistedRegistersKey, {});
+        for (const [registerName, persisted] of Object.entries(persistedRegisters)) {
+          if (this.getPersistence(registerName) === persistence && !this.registers.has(registerName)) {
+            this.registers.set(registerName, { ...persisted, timestamp: new Date(persisted.timestamp) });
+          }
+        }
+      } catch (error) {
+        console.warn(`Failed to load ${persistence} registers:`, error);
+      }
+    }
+  }
+
+  /**
+   * Save every register to the state its persistence points at, and remove it from the other one.
+   * A failed save is shown as an error, the returned promise does not reject.
+   */
+  public async savePersistedRegisters(): Promise<void> {
+    if (!this.context) {
+      return;
+    }
+
+    const workspaceRegisters: Record<string, PersistedRegister> = {};
+    const globalRegisters: Record<string, PersistedRegister> = {};
+
+    for (const [registerName, content] of this.registers) {
+      const persisted: PersistedRegister = { ...content, timestamp: content.timestamp.getTime() };
+      switch (this.getPersistence(registerName)) {
+        case "workspace":
+          workspaceRegisters[registerName] = persisted;
+          break;
+        case "global":
+          globalRegisters[registerName] = persisted;
+          break;
+      }
+    }
+
+    try {
+      await Promise.all([
+        this.context.workspaceState.update(persistedRegistersKey, workspaceRegisters),
+        this.context.globalState.update(persistedRegistersKey, globalRegisters),
+      ]);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to save registers: ${error}`);
     }
   }
 
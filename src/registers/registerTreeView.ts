@@ -0,0 +1,61 @@
+import * as vscode from "vscode";
+import { RegisterManager } from "./registerManager";
+import { getRegisterUri } from "./registerFileSystem";
+
+/**
+ * Lists the registers in the Explorer, opening one shows it in an editor where it can be edited.
+ */
+export class RegisterTreeDataProvider implements vscode.TreeDataProvider<string> {
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+  private readonly listeners: vscode.Disposable[] = [];
+
+  constructor(private registerManager: RegisterManager) {
+    this.listeners.push(
+      registerManager.onDidChange(() => this.changeEmitter.fire()),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (
+          event.affectsConfiguration("vstoys.registers.count") ||
+          event.affectsConfiguration("vstoys.registers.showEmptyRegisters")
+        ) {
+          this.changeEmitter.fire();
+        }
+      })
+    );
+  }
+
+  getChildren(element?: string): string[] {
+    if (element) {
+      return [];
+    }
+
+    const showEmptyRegisters = vscode.workspace
+      .getConfiguration("vstoys.registers")
+      .get<boolean>("showEmptyRegisters", true);
+    return this.registerManager
+      .getRegisterNames()
+      .filter((registerName) => showEmptyRegisters || this.registerManager.hasContent(registerName));
+  }
+
+  getTreeItem(registerName: string): vscode.TreeItem {
+    const content = this.registerManager.getRegisterContent(registerName);
+    const hasContent = this.registerManager.hasContent(registerName);
+    const uri = getRegisterUri(registerName);
+
+    const item = new vscode.TreeItem(`Register ${registerName}`, vscode.TreeItemCollapsibleState.None);
+    item.id = registerName;
+    item.resourceUri = uri;
+    item.iconPath = new vscode.ThemeIcon(hasContent ? "clippy" : "circle-outline");
+    item.description = hasContent ? this.registerManager.getPreview(content!.text, 50) : "Empty";
+    item.tooltip = hasContent
+      ? new vscode.MarkdownString(`Stored: ${content!.timestamp.toLocaleString()}`).appendCodeblock(content!.text)
+      : "No content stored";
+    item.command = { command: "vscode.open", title: "Edit Register", arguments: [uri] };
+    return item;
+  }
+
+  dispose(): void {
+    this.listeners.forEach((listener) => listener.dispose());
+    this.changeEmitter.dispose();
+  }
+}
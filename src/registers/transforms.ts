@@ -0,0 +1,142 @@
+import * as vscode from "vscode";
+
+export interface RegisterTransform {
+  name: string;
+  description: string;
+  apply: (text: string) => string;
+}
+
+// A regex transform from the `vstoys.registers.transforms` setting
+interface RegexTransformSetting {
+  name: string;
+  find: string;
+  replace?: string;
+  flags?: string;
+  description?: string;
+}
+
+/**
+ * Splits an identifier or phrase into lowercase words, e.g. `fooBar-baz qux` into `foo bar baz qux`
+ */
+function splitWords(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+    .split(/[^A-Za-z0-9]+/)
+    .filter((word) => word.length > 0)
+    .map((word) => word.toLowerCase());
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+/**
+ * Changes the case of every line on its own, keeping the indentation of the line
+ */
+function changeCase(text: string, joinWords: (words: string[]) => string): string {
+  return text
+    .split(/(\r?\n)/)
+    .map((part) => {
+      if (/^\r?\n$/.test(part) || part.trim() === "") {
+        return part;
+      }
+      const indentation = part.match(/^\s*/)?.[0] || "";
+      return indentation + joinWords(splitWords(part));
+    })
+    .join("");
+}
+
+const builtinTransforms: RegisterTransform[] = [
+  { name: "upperCase", description: "UPPER CASE", apply: (text) => text.toUpperCase() },
+  { name: "lowerCase", description: "lower case", apply: (text) => text.toLowerCase() },
+  {
+    name: "camelCase",
+    description: "camelCase",
+    apply: (text) => changeCase(text, (words) => words.map((word, i) => (i === 0 ? word : capitalize(word))).join("")),
+  },
+  {
+    name: "pascalCase",
+    description: "PascalCase",
+    apply: (text) => changeCase(text, (words) => words.map(capitalize).join("")),
+  },
+  { name: "snakeCase", description: "snake_case", apply: (text) => changeCase(text, (words) => words.join("_")) },
+  { name: "kebabCase", description: "kebab-case", apply: (text) => changeCase(text, (words) => words.join("-")) },
+  { name: "trim", description: "Remove leading and trailing whitespace", apply: (text) => text.trim() },
+  {
+    name: "trimLines",
+    description: "Remove leading and trailing whitespace of every line",
+    apply: (text) =>
+      text
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .join("\n"),
+  },
+  {
+    name: "joinLines",
+    description: "Join the lines with a space",
+    apply: (text) =>
+      text
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0)
+        .join(" "),
+  },
+  { name: "singleQuote", description: "Wrap in 'single quotes'", apply: (text) => `'${text}'` },
+  { name: "doubleQuote", description: 'Wrap in "double quotes"', apply: (text) => `"${text}"` },
+  { name: "backtick", description: "Wrap in `backticks`", apply: (text) => `\`${text}\`` },
+];
+
+/**
+ * @returns The built-in transforms followed by the regex transforms from the settings.
+ * Regex transforms that don't compile are reported and left out.
+ */
+export function getTransforms(printOutput?: (content: string) => void): RegisterTransform[] {
+  const settings = vscode.workspace.getConfiguration("vstoys.registers").get<RegexTransformSetting[]>("transforms", []);
+
+  const regexTransforms: RegisterTransform[] = [];
+  for (const setting of settings) {
+    if (!setting?.name || typeof setting.find !== "string") {
+      printOutput?.(`Skipping register transform without a name or find pattern: ${JSON.stringify(setting)}`);
+      continue;
+    }
+
+    try {
+      const regex = new RegExp(setting.find, setting.flags ?? "g");
+      const replace = setting.replace ?? "";
+      regexTransforms.push({
+        name: setting.name,
+        description: setting.description ?? `${regex} → ${replace}`,
+        apply: (text) => text.replace(regex, replace),
+      });
+    } catch (error) {
+      printOutput?.(`Skipping register transform ${setting.name}: ${error}`);
+    }
+  }
+
+  // Transforms from the settings replace built-in transforms with the same name
+  const regexNames = new Set(regexTransforms.map((transform) => transform.name));
+  return [...builtinTransforms.filter((transform) => !regexNames.has(transform.name)), ...regexTransforms];
+}
+
+/**
+ * @returns The transform names that are not among the transforms, in the order they were given
+ */
+export function findUnknownTransforms(transformNames: string[], transforms: RegisterTransform[]): string[] {
+  return transformNames.filter((transformName) => !transforms.some((transform) => transform.name === transformName));
+}
+
+/**
+ * Applies the named transforms one after the other.
+ * @throws When a transform name is unknown, before anything is applied.
+ */
+export function applyTransforms(text: string, transformNames: string[], transforms: RegisterTransform[]): string {
+  const chain = transformNames.map((transformName) => {
+    const transform = transforms.find((candidate) => candidate.name === transformName);
+    if (!transform) {
+      throw new Error(`Unknown register transform ${transformName}`);
+    }
+    return transform;
+  });
+  return chain.reduce((transformed, transform) => transform.apply(transformed), text);
+}
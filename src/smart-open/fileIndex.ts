@@ -0,0 +1,192 @@
+import * as vscode from "vscode";
+import { GetFilesInWorkspaceFolder, compileExcludeGlobs, getExcludeGlobs, isExcludedPath } from "./files";
+
+interface FolderIndex {
+  folder: vscode.WorkspaceFolder;
+  // The files of the folder keyed by their uri string
+  files: Map<string, vscode.Uri>;
+  // The gitignore, files.exclude and search.exclude globs, compiled once when the folder is indexed
+  excludeMatchers: Array<(path: string) => boolean>;
+  // Resolves once the initial file search is done, watcher events are applied after it
+  ready: Promise<void>;
+  watcher: vscode.FileSystemWatcher;
+  disposed: boolean;
+}
+
+/**
+ * Keeps the files of every workspace folder, found once and then kept up to date by a file system watcher.
+ * Respects the same gitignore, files.exclude and search.exclude globs as the initial file search.
+ */
+export class FileIndex implements vscode.Disposable {
+  private folders: Map<string, FolderIndex> = new Map();
+  // The files of every folder in one list, rebuilt on the next request after a change
+  private allFiles: vscode.Uri[] | undefined;
+
+  /**
+   * @param folders The workspace folders to list the files of, every workspace folder when undefined
+   * @returns The files of the folders, indexing folders that are not indexed yet
+   */
+  async getFiles(folders?: readonly vscode.WorkspaceFolder[]): Promise<vscode.Uri[]> {
+    const allFolders = folders === undefined;
+    const folderIndexes = (folders ?? vscode.workspace.workspaceFolders ?? []).map((folder) =>
+      this.getFolderIndex(folder)
+    );
+    await Promise.all(folderIndexes.map((folderIndex) => folderIndex.ready));
+
+    if (!allFolders) {
+      return folderIndexes.flatMap((folderIndex) => [...folderIndex.files.values()]);
+    }
+    if (!this.allFiles) {
+      this.allFiles = folderIndexes.flatMap((folderIndex) => [...folderIndex.files.values()]);
+    }
+    return this.allFiles;
+  }
+
+  /**
+   * Searches the files of a workspace folder again, or of every folder, e.g. when the excludes changed
+   */
+  rebuild(folder?: vscode.WorkspaceFolder): void {
+    const folders = folder ? [folder] : [...this.folders.values()].map((folderIndex) => folderIndex.folder);
+    folders.forEach((folderToRebuild) => {
+      this.removeFolder(folderToRebuild);
+      this.getFolderIndex(folderToRebuild);
+    });
+  }
+
+  handleWorkspaceFoldersChanged(event: vscode.WorkspaceFoldersChangeEvent): void {
+    event.removed.forEach((folder) => this.removeFolder(folder));
+    // Added folders are indexed by the next request
+    this.allFiles = undefined;
+  }
+
+  private getFolderIndex(folder: vscode.WorkspaceFolder): FolderIndex {
+    const key = folder.uri.toString();
+    const existing = this.folders.get(key);
+    if (existing) {
+      return existing;
+    }
+
+    const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folder, "**/*"));
+    const folderIndex: FolderIndex = {
+      folder,
+      files: new Map(),
+      excludeMatchers: [],
+      ready: Promise.resolve(),
+      watcher,
+      disposed: false,
+    };
+    folderIndex.ready = this.buildFolderIndex(folderIndex);
+
+    // A changed .gitignore changes which files are excluded, the whole folder is searched again
+    const gitignore = vscode.Uri.joinPath(folder.uri, ".gitignore").toString();
+    const rebuildOnGitignore = (uri: vscode.Uri): boolean => {
+      if (uri.toString() !== gitignore) {
+        return false;
+      }
+      this.rebuild(folder);
+      return true;
+    };
+
+    // Renames arrive as a delete and a create
+    watcher.onDidCreate((uri) => {
+      if (!rebuildOnGitignore(uri)) {
+        this.whenReady(folderIndex, () => this.addPath(folderIndex, uri));
+      }
+    });
+    watcher.onDidDelete((uri) => {
+      if (!rebuildOnGitignore(uri)) {
+        this.whenReady(folderIndex, () => this.removePath(folderIndex, uri));
+      }
+    });
+    watcher.onDidChange(rebuildOnGitignore);
+
+    this.folders.set(key, folderIndex);
+    this.allFiles = undefined;
+    return folderIndex;
+  }
+
+  private async buildFolderIndex(folderIndex: FolderIndex): Promise<void> {
+    const buildStart = performance.now();
+    try {
+      folderIndex.excludeMatchers = compileExcludeGlobs(await getExcludeGlobs(folderIndex.folder.uri.fsPath));
+      const files = await GetFilesInWorkspaceFolder(folderIndex.folder);
+      files.forEach((file) => folderIndex.files.set(file.toString(), file));
+    } catch (error) {
+      console.error(`Error indexing workspace folder "${folderIndex.folder.name}":`, error);
+    }
+    this.allFiles = undefined;
+    const buildEnd = performance.now();
+    console.log(
+      `File index for "${folderIndex.folder.name}": ${(buildEnd - buildStart).toFixed(2)}ms (${folderIndex.files.size} files)`
+    );
+  }
+
+  private whenReady(folderIndex: FolderIndex, update: () => Promise<void> | void): void {
+    folderIndex.ready
+      .then(() => {
+        if (!folderIndex.disposed) {
+          return update();
+        }
+      })
+      .catch((error) => console.error("Error updating the file index:", error));
+  }
+
+  private isExcluded(folderIndex: FolderIndex, uri: vscode.Uri): boolean {
+    const relativePath = vscode.workspace.asRelativePath(uri, false).replace(/\\/g, "/");
+    return isExcludedPath(relativePath, folderIndex.excludeMatchers);
+  }
+
+  private async addPath(folderIndex: FolderIndex, uri: vscode.Uri): Promise<void> {
+    if (this.isExcluded(folderIndex, uri)) {
+      return;
+    }
+
+    let stat: vscode.FileStat;
+    try {
+      stat = await vscode.workspace.fs.stat(uri);
+    } catch {
+      // Already gone again
+      return;
+    }
+
+    if (stat.type & vscode.FileType.Directory) {
+      // A folder moved into the workspace only reports itself, not the files in it
+      const files = await GetFilesInWorkspaceFolder(folderIndex.folder, uri);
+      files.forEach((file) => folderIndex.files.set(file.toString(), file));
+    } else {
+      folderIndex.files.set(uri.toString(), uri);
+    }
+    this.allFiles = undefined;
+  }
+
+  private removePath(folderIndex: FolderIndex, uri: vscode.Uri): void {
+    const key = uri.toString();
+    this.allFiles = undefined;
+    if (folderIndex.files.delete(key)) {
+      return;
+    }
+
+    // Not a known file, a deleted folder only reports itself
+    const folderPrefix = `${key}/`;
+    for (const fileKey of folderIndex.files.keys()) {
+      if (fileKey.startsWith(folderPrefix)) {
+        folderIndex.files.delete(fileKey);
+      }
+    }
+  }
+
+  private removeFolder(folder: vscode.WorkspaceFolder): void {
+    const key = folder.uri.toString();
+    const folderIndex = this.folders.get(key);
+    if (folderIndex) {
+      folderIndex.disposed = true;
+      folderIndex.watcher.dispose();
+      this.folders.delete(key);
+      this.allFiles = undefined;
+    }
+  }
+
+  dispose(): void {
+    [...this.folders.values()].forEach((folderIndex) => this.removeFolder(folderIndex.folder));
+  }
+}
@@ -2,6 +2,8 @@
 // Import the module and reference it with the alias vscode in your code below
 import * as vscode from "vscode";
 import { getCachedGitignoreGlobs } from "./gitignoreCache";
+import { compileGlob } from "../helpers/simpleGlob";
+import { GetMaxWorkspaceFiles } from "../helpers/customEditorLabelService";
 
 // Static cache for exclude settings
 let searchExcludeCache: string[] = [];
@@ -26,11 +28,11 @@ function createMergedGlobPattern(patterns: string[]): string {
 }
 
 /**
- * Loads gitignore, creates glob patterns, and returns merged exclude pattern
+ * Loads gitignore and returns its exclude globs, followed by the search.exclude and files.exclude globs
  * @param folderPath Path to the workspace folder
- * @returns Promise<string> Merged glob pattern for exclusions
+ * @returns Promise<string[]> Glob patterns for exclusions
  */
-export async function createExcludeGlobPattern(folderPath: string): Promise<string | null> {
+export async function getExcludeGlobs(folderPath: string): Promise<string[]> {
   try {
     const globs = await getCachedGitignoreGlobs(folderPath);
 
@@ -46,6 +48,45 @@ export async function createExcludeGlobPattern(folderPath: string): Promise<stri
     excludeGlobsOnly.push(...filesExcludeCache);
 
     // console.log("Original excludeGlobsOnly:", excludeGlobsOnly);
+    return excludeGlobsOnly;
+  } catch (error) {
+    console.error("Error loading gitignore globs:", error);
+    return [...searchExcludeCache, ...filesExcludeCache];
+  }
+}
+
+/**
+ * Compiles exclude globs for {@link isExcludedPath}, once per set of globs rather than once per checked path
+ * @param excludeGlobs Glob patterns from getExcludeGlobs
+ */
+export function compileExcludeGlobs(excludeGlobs: string[]): Array<(path: string) => boolean> {
+  return excludeGlobs.map(compileGlob);
+}
+
+/**
+ * Checks a path against exclude globs the way findFiles does, a glob matching a folder excludes everything in it
+ * @param relativePath Path relative to the workspace folder, with forward slashes
+ * @param excludeMatchers Exclude globs compiled by compileExcludeGlobs
+ */
+export function isExcludedPath(relativePath: string, excludeMatchers: Array<(path: string) => boolean>): boolean {
+  const segments = relativePath.split("/");
+  for (let i = 1; i <= segments.length; i++) {
+    const partialPath = segments.slice(0, i).join("/");
+    if (excludeMatchers.some((matches) => matches(partialPath))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Loads gitignore, creates glob patterns, and returns merged exclude pattern
+ * @param folderPath Path to the workspace folder
+ * @returns Promise<string> Merged glob pattern for exclusions
+ */
+export async function createExcludeGlobPattern(folderPath: string): Promise<string | null> {
+  try {
+    const excludeGlobsOnly = await getExcludeGlobs(folderPath);
 
     const mergeStart = performance.now();
     const mergedExcludePattern = createMergedGlobPattern(excludeGlobsOnly);
@@ -91,6 +132,44 @@ export function updateFilesExcludeCache(): void {
   console.log("Updated files.exclude cache:", filesExcludeCache);
 }
 
+/**
+ * Finds the files of a workspace folder, or of a folder inside it, leaving out the excluded files
+ * @param workspaceFolder The workspace folder the excludes are read from
+ * @param base The folder to search, defaults to the workspace folder
+ */
+export async function GetFilesInWorkspaceFolder(
+  workspaceFolder: vscode.WorkspaceFolder,
+  base: vscode.Uri = workspaceFolder.uri
+): Promise<vscode.Uri[]> {
+  const folderPath = workspaceFolder.uri.fsPath;
+  const pattern = new vscode.RelativePattern(base, "**/*");
+
+  // console.log("VS Code search.exclude settings:", searchExcludeCache);
+  // console.log("VS Code files.exclude settings:", filesExcludeCache);
+  try {
+    const createExcludeStart = performance.now();
+    const mergedExcludePattern = await createExcludeGlobPattern(folderPath);
+    const createExcludeEnd = performance.now();
+    console.log(`  createExcludeGlobPattern: ${(createExcludeEnd - createExcludeStart).toFixed(2)}ms`);
+
+    const findStart = performance.now();
+    const files = await vscode.workspace.findFiles(pattern, mergedExcludePattern, GetMaxWorkspaceFiles());
+    const findEnd = performance.now();
+    console.log(`  File finding: ${(findEnd - findStart).toFixed(2)}ms (found ${files.length} files)`);
+    return files;
+  } catch (error: any) {
+    console.log(`  Error processing workspace folder "${workspaceFolder.name}": ${error.message}`);
+
+    // Keep the exclude glob SMALL (big obvious folders only)
+    const minimalExclude = "{**/.git/**,**/node_modules/**,**/.svn/**,**/.hg/**}";
+    const findStart = performance.now();
+    const files = await vscode.workspace.findFiles(pattern, minimalExclude, 20000);
+    const findEnd = performance.now();
+    console.log(`  File finding: ${(findEnd - findStart).toFixed(2)}ms (found ${files.length} files)`);
+    return files;
+  }
+}
+
 export async function GetAllFilesInWorkspace(filterString: string = ""): Promise<vscode.Uri[]> {
   const totalStart = performance.now();
   console.log("=== Performance Profile: GetAllFilesInWorkspace ===");
@@ -104,47 +183,15 @@ export async function GetAllFilesInWorkspace(filterString: string = ""): Promise
 
   for (const workspaceFolder of vscode.workspace.workspaceFolders) {
     const folderStart = performance.now();
-    const folderPath = workspaceFolder.uri.fsPath;
-    const pattern = new vscode.RelativePattern(folderPath, "**/*");
-
-    // console.log("VS Code search.exclude settings:", searchExcludeCache);
-    // console.log("VS Code files.exclude settings:", filesExcludeCache);
-    try {
-      const createExcludeStart = performance.now();
-      const mergedExcludePattern = await createExcludeGlobPattern(folderPath);
-      const createExcludeEnd = performance.now();
-      console.log(`  createExcludeGlobPattern: ${(createExcludeEnd - createExcludeStart).toFixed(2)}ms`);
-
-      const findStart = performance.now();
-      const files = await vscode.workspace.findFiles(pattern, mergedExcludePattern, 2000);
-      const findEnd = performance.now();
-      console.log(`  File finding: ${(findEnd - findStart).toFixed(2)}ms (found ${files.length} files)`);
-
-      // Only apply filtering if filterString has content and is not a glob pattern
-      const filteredFiles =
-        filterString.length > 0 && !/[*?]/.test(filterString)
-          ? files.filter((f) => f.fsPath.toLowerCase().includes(filterString.toLowerCase()))
-          : files;
-
-      allFiles.push(...filteredFiles);
-    } catch (error: any) {
-      console.log(`  Error processing workspace folder "${workspaceFolder.name}": ${error.message}`);
-
-      // Keep the exclude glob SMALL (big obvious folders only)
-      const minimalExclude = "{**/.git/**,**/node_modules/**,**/.svn/**,**/.hg/**}";
-      const findStart = performance.now();
-      const files = await vscode.workspace.findFiles(pattern, minimalExclude, 20000);
-      const findEnd = performance.now();
-      console.log(`  File finding: ${(findEnd - findStart).toFixed(2)}ms (found ${files.length} files)`);
-
-      // Only apply filtering if filterString has content and is not a glob pattern
-      const filteredFiles =
-        filterString.length > 0 && !/[*?]/.test(filterString)
-          ? files.filter((f) => f.fsPath.toLowerCase().includes(filterString.toLowerCase()))
-          : files;
-
-      allFiles.push(...filteredFiles);
-    }
+    const files = await GetFilesInWorkspaceFolder(workspaceFolder);
+
+    // Only apply filtering if filterString has content and is not a glob pattern
+    const filteredFiles =
+      filterString.length > 0 && !/[*?]/.test(filterString)
+        ? files.filter((f) => f.fsPath.toLowerCase().includes(filterString.toLowerCase()))
+        : files;
+
+    allFiles.push(...filteredFiles);
 
     const folderEnd = performance.now();
     console.log(`Workspace folder "${workspaceFolder.name}" total: ${(folderEnd - folderStart).toFixed(2)}ms`);
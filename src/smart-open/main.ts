@@ -1,9 +1,15 @@
 import * as vscode from "vscode";
 import { LoadIcons } from "./icons";
 import { updateFilesExcludeCache, updateSearchExcludeCache } from "./files";
+import { FileIndex } from "./fileIndex";
+import { batchLoadIcons } from "./icons";
 import { showDebugQuickPick } from "./debugQuickPick";
 import { updateCustomLabelConfiguration } from "../helpers/customEditorLabelService";
-import { updateDetailsDebug, showQuickPickWithInlineSearch } from "./picks/fileListWithFuzzy";
+import {
+  updateDetailsDebug,
+  showQuickPickWithInlineSearch,
+  initializeFileListWithFuzzy,
+} from "./picks/fileListWithFuzzy";
 import { createOutputChannel } from "../extension";
 import { ScoreCalculator } from "./scoring";
 import {
@@ -12,8 +18,13 @@ import {
   disposeGitignoreWatchers,
   clearGitignoreCache,
 } from "./gitignoreCache";
+import { registerRecordedCommand } from "../helpers/commandRecorder";
 
 export let scoreCalculator: ScoreCalculator;
+export let fileIndex: FileIndex;
+
+// Pending lazy loading timers, cleared if the module is deactivated before they fire
+let lazyLoadTimeouts: NodeJS.Timeout[] = [];
 
 /**
  * Prints the given content on the output channel.
@@ -36,6 +47,10 @@ export async function activateSmartOpen(name: string, context: vscode.ExtensionC
       updateCustomLabelConfiguration();
     }
 
+    if (event.affectsConfiguration("vstoys.smart-open.maxWorkspaceFiles")) {
+      fileIndex.rebuild();
+    }
+
     if (event.affectsConfiguration("vstoys.smart-open.debugDetails")) {
       updateDetailsDebug(vscode.workspace.getConfiguration("vstoys.smart-open").get("debugDetails", false));
     }
@@ -51,12 +66,18 @@ export async function activateSmartOpen(name: string, context: vscode.ExtensionC
     } else if (event.affectsConfiguration("files.exclude")) {
       updateFilesExcludeCache();
     }
+
+    if (event.affectsConfiguration("search.exclude") || event.affectsConfiguration("files.exclude")) {
+      printSmartOpenOutput("Exclude settings changed - rebuilding the file index");
+      fileIndex.rebuild();
+    }
   });
 
   // Listen for workspace folder changes to handle gitignore cache
   const workspaceListener = vscode.workspace.onDidChangeWorkspaceFolders((event) => {
     printSmartOpenOutput("Workspace folders changed - updating gitignore watchers");
     handleWorkspaceFoldersChanged(event);
+    fileIndex.handleWorkspaceFoldersChanged(event);
   });
 
   context.subscriptions.push(configChangeListener);
@@ -64,45 +85,64 @@ export async function activateSmartOpen(name: string, context: vscode.ExtensionC
   context.subscriptions.push(workspaceListener);
 
   scoreCalculator = new ScoreCalculator(context);
+  fileIndex = new FileIndex();
+  context.subscriptions.push(fileIndex);
+  initializeFileListWithFuzzy(context);
 
   // Lazy mans lazy loading
-  setTimeout(() => {
-    // Initialize all icons
-    LoadIcons();
-  }, 10);
+  lazyLoadTimeouts.push(
+    setTimeout(() => {
+      // Initialize all icons
+      LoadIcons();
+    }, 10)
+  );
 
   // Lazy mans lazy loading
-  setTimeout(() => {
-    // Initialize exclude listeners
-    updateSearchExcludeCache();
-    updateFilesExcludeCache();
+  lazyLoadTimeouts.push(
+    setTimeout(() => {
+      // Initialize exclude listeners
+      updateSearchExcludeCache();
+      updateFilesExcludeCache();
+
+      // Initialize the custom editor label service
+      updateCustomLabelConfiguration();
 
-    // Initialize the custom editor label service
-    updateCustomLabelConfiguration();
+      // Initialize gitignore watchers
+      initializeGitignoreWatchers();
 
-    // Initialize gitignore watchers
-    initializeGitignoreWatchers();
-  }, 100);
+      // Build the file index once the excludes are known, it is updated by file system watchers from then on
+      fileIndex.getFiles().then((files) => batchLoadIcons(files));
+    }, 100)
+  );
 
   // Lazy mans lazy loading
-  setTimeout(() => {
-    const debugCommand = vscode.commands.registerCommand("vstoys.debug.showQuickPick", async () => {
-      await showDebugQuickPick();
-    });
-
-    const smartOpenCommand = vscode.commands.registerCommand("vstoys.smart-open.showQuickPick", async () => {
-      await showQuickPickWithInlineSearch();
-    });
-
-    context.subscriptions.push(debugCommand);
-    context.subscriptions.push(smartOpenCommand);
-    printSmartOpenOutput(`${name} activated`);
-  }, 300);
+  lazyLoadTimeouts.push(
+    setTimeout(() => {
+      const debugCommand = registerRecordedCommand("vstoys.debug.showQuickPick", async () => {
+        await showDebugQuickPick();
+      });
+
+      // Args like `{ "scope": "active" }` pick the folders to search
+      const smartOpenCommand = registerRecordedCommand("vstoys.smart-open.showQuickPick", async (args) => {
+        await showQuickPickWithInlineSearch(typeof args?.scope === "string" ? args.scope : undefined);
+      });
+
+      context.subscriptions.push(debugCommand);
+      context.subscriptions.push(smartOpenCommand);
+      printSmartOpenOutput(`${name} activated`);
+    }, 300)
+  );
 }
 
 export function deactivateSmartOpen() {
   printSmartOpenOutput("Smart Open deactivating - cleaning up caches");
 
+  lazyLoadTimeouts.forEach((timeout) => clearTimeout(timeout));
+  lazyLoadTimeouts = [];
+
+  // Persist scorer data and release their listeners
+  scoreCalculator?.dispose();
+
   // Clean up gitignore watchers and cache
   disposeGitignoreWatchers();
   clearGitignoreCache();
@@ -0,0 +1,115 @@
+import * as vscode from "vscode";
+import { SmartOpenQuery } from "../query";
+import { showSymbolPicker } from "./symbolPicker";
+import { findDocumentSymbol, getDocumentSymbols } from "../../helpers/documentSymbols";
+
+// Where in the file to open, from a search like `main.ts:42:5` or `main.ts@activate`
+export type FileLocation = Pick<SmartOpenQuery, "line" | "column" | "symbol">;
+
+// How picked files open: in the active group, beside it, in a new group, or forced to preview or pinned
+export type OpenMode = "default" | "side" | "newGroup" | "preview" | "pinned";
+
+export const openToSideButton: vscode.QuickInputButton = {
+  iconPath: new vscode.ThemeIcon("split-horizontal"),
+  tooltip: "Open to the Side",
+};
+
+export const revealInExplorerButton: vscode.QuickInputButton = {
+  iconPath: new vscode.ThemeIcon("files"),
+  tooltip: "Reveal in Explorer",
+};
+
+export const copyRelativePathButton: vscode.QuickInputButton = {
+  iconPath: new vscode.ThemeIcon("copy"),
+  tooltip: "Copy Relative Path",
+};
+
+export const fileItemButtons = [openToSideButton, revealInExplorerButton, copyRelativePathButton];
+
+/**
+ * Opens a file, at the line and column or the symbol of the search when it has one.
+ * When the symbol is not found the symbol picker opens, filtered by it.
+ * @returns The editor of the file, undefined when it failed to open
+ */
+export async function openFile(
+  uri: vscode.Uri,
+  location: FileLocation = {},
+  options: vscode.TextDocumentShowOptions = {}
+): Promise<vscode.TextEditor | undefined> {
+  try {
+    const doc = await vscode.workspace.openTextDocument(uri);
+    let position: vscode.Position | undefined;
+    if (location.symbol) {
+      const symbol = findDocumentSymbol(await getDocumentSymbols(uri), location.symbol);
+      if (!symbol) {
+        const editor = await vscode.window.showTextDocument(doc, options);
+        await showSymbolPicker(uri, location.symbol);
+        return editor;
+      }
+      position = symbol.selectionRange.start;
+    } else if (location.line !== undefined) {
+      position = doc.validatePosition(
+        new vscode.Position(Math.max(0, location.line - 1), Math.max(0, (location.column ?? 1) - 1))
+      );
+    }
+    const selection = position ? new vscode.Range(position, position) : undefined;
+    // File opening is already tracked by RecencyScorer via onDidChangeActiveTextEditor
+    // No need to manually record here anymore
+    return await vscode.window.showTextDocument(doc, { ...options, selection });
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to open file: ${error}`);
+    return undefined;
+  }
+}
+
+function getShowOptions(mode: OpenMode): vscode.TextDocumentShowOptions {
+  switch (mode) {
+    case "side":
+      return { viewColumn: vscode.ViewColumn.Beside };
+    case "newGroup":
+      // A column after the last group creates a new group
+      return { viewColumn: vscode.window.tabGroups.all.length + 1 };
+    case "preview":
+      return { preview: true };
+    case "pinned":
+      return { preview: false };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Opens the files in the same group, only a single file opens at the location of the search.
+ * Several files open pinned, previews would replace each other.
+ */
+export async function openFiles(uris: vscode.Uri[], location: FileLocation, mode: OpenMode): Promise<void> {
+  const options = getShowOptions(mode);
+  if (uris.length === 1) {
+    await openFile(uris[0], location, options);
+    return;
+  }
+
+  let viewColumn = options.viewColumn;
+  for (const uri of uris) {
+    const editor = await openFile(uri, {}, { ...options, viewColumn, preview: false });
+    // The following files join the group the first one opened in, instead of each opening another group
+    viewColumn = editor?.viewColumn ?? viewColumn;
+  }
+}
+
+export function revealInExplorer(uri: vscode.Uri): Thenable<unknown> {
+  return vscode.commands.executeCommand("revealInExplorer", uri);
+}
+
+/**
+ * Copies the paths of the files, one per line.
+ * @param relative Copy the paths relative to the workspace instead of the absolute paths
+ */
+export async function copyPaths(uris: vscode.Uri[], relative: boolean): Promise<void> {
+  const paths = uris.map((uri) => (relative ? vscode.workspace.asRelativePath(uri) : uri.fsPath));
+  await vscode.env.clipboard.writeText(paths.join("\n"));
+  vscode.window.setStatusBarMessage(
+    paths.length === 1 ? `Copied ${paths[0]}` : `Copied ${paths.length} ${relative ? "relative" : "absolute"} paths`,
+    3000
+  );
+}
@@ -1,14 +1,26 @@
 import * as vscode from "vscode";
 import { GetIconForFile, batchLoadIcons, getIconCacheStats } from "../icons";
-import { GetAllFilesInWorkspace } from "../files";
 import { GetCustomLabelForFile, IsCustomLabelsEnabled } from "../../helpers/customEditorLabelService";
-import { FileQuickPickItem } from "./interface/IFileQuickPickItem";
+import { FileQuickPickItem, SmartOpenQuickPickItem, isFileItem } from "./interface/IFileQuickPickItem";
 import { UriExt } from "./interface/IUriExt";
 import { InlineInput } from "./InlineInput";
 import { DEFAULT_SCORE_CONFIG, GitScorer } from "../scoring";
-import { scoreCalculator } from "../main";
+import { fileIndex, scoreCalculator } from "../main";
 import { getCursorBlinkingSetting, getCursorCharFromSettings } from "./cursor";
 import path from "path";
+import { SmartOpenQuery, matchesQuery, parseQuery } from "../query";
+import { showSymbolPicker } from "./symbolPicker";
+import {
+  OpenMode,
+  copyPaths,
+  copyRelativePathButton,
+  fileItemButtons,
+  openFiles,
+  openToSideButton,
+  revealInExplorer,
+  revealInExplorerButton,
+} from "./fileActions";
+import { registerRecordedCommand } from "../../helpers/commandRecorder";
 
 // Ugly, but lets us enable and disable this for now.
 let detailsDebug = false;
@@ -19,94 +31,127 @@ export function updateDetailsDebug(value: boolean) {
 // Module-level reference to active InlineInput for forwarding QuickPick input
 let activeInlineInput: InlineInput | undefined;
 
-let filesCache: vscode.Uri[] = [];
+let picked: vscode.QuickPick<SmartOpenQuickPickItem>;
+// The items of the picker without the folder separators, the inline search navigates these
+let fileItems: FileQuickPickItem[] = [];
+// The parsed input of the last search, its line or symbol is where the picked file opens
+let currentQuery: SmartOpenQuery = parseQuery("");
+// Files marked to open together, keyed by their uri string, cleared when a search starts
+const markedFiles = new Map<string, vscode.Uri>();
+const markPrefix = "$(check) ";
+const baseTitle = "Smart Open";
 
-// Debounce timer for file/icon loading
-let fileLoadDebounceTimer: NodeJS.Timeout | undefined;
+// Which workspace folders are searched: "all", "active" for the folder of the active editor, or a folder name
+let scope = "all";
 
-if (process.env.NODE_ENV !== "development") {
-  vscode.window.onDidChangeWindowState((event) => {
-    if (!event.focused && activeInlineInput) {
-      activeInlineInput.destroy();
-    }
-  });
-}
+const scopeButton: vscode.QuickInputButton = {
+  iconPath: new vscode.ThemeIcon("root-folder"),
+  tooltip: "Switch between all folders, the active folder and each workspace folder",
+};
 
-// Switch editor or file listener
-vscode.window.onDidChangeActiveTextEditor(async (editor) => {
-  console.log("Active editor changed:", editor?.document.uri);
-  if (DEFAULT_SCORE_CONFIG.enabled.git) {
-    if (editor?.document) {
-      // The active file
-      const fileObject: UriExt = {
-        uri: editor.document.uri,
-        fsPath: editor.document.uri.fsPath,
-        fileName: path.basename(editor.document.uri.fsPath),
-        relativePath: vscode.workspace.asRelativePath(editor.document.uri),
-        customLabel: "",
-      };
-
-      const activeWorkspaceFolder = vscode.workspace.getWorkspaceFolder(editor.document.uri);
-      const context = { activeEditor: editor, activeWorkspaceFolder };
-      // Re-evaluate the scoring when the active editor changes
-      scoreCalculator.getScorer<GitScorer>("git")?.calculateScore("", fileObject, context);
-    }
+/**
+ * @returns The folders in scope, undefined for every folder
+ */
+function getScopeFolders(
+  activeWorkspaceFolder: vscode.WorkspaceFolder | undefined
+): readonly vscode.WorkspaceFolder[] | undefined {
+  if (scope === "active") {
+    return activeWorkspaceFolder ? [activeWorkspaceFolder] : undefined;
   }
+  const folder = vscode.workspace.workspaceFolders?.find((workspaceFolder) => workspaceFolder.name === scope);
+  return folder ? [folder] : undefined;
+}
 
-  // Clear existing debounce timer
-  if (fileLoadDebounceTimer) {
-    clearTimeout(fileLoadDebounceTimer);
+function getScopeLabel(): string {
+  if (scope === "active") {
+    return "Active Folder";
   }
+  return vscode.workspace.workspaceFolders?.some((folder) => folder.name === scope) ? scope : "All Folders";
+}
 
-  // Debounce file and icon loading
-  fileLoadDebounceTimer = setTimeout(() => {
-    // TODO: Use a real file watcher here instead of doing it each time we change active editor
-    const fileLoadStart = performance.now();
-    GetAllFilesInWorkspace().then((files) => {
-      filesCache = files;
-      const fileLoadEnd = performance.now();
-      console.log(`  File loading: ${(fileLoadEnd - fileLoadStart).toFixed(2)}ms (${filesCache.length} files)`);
-
-      // TODO: Use a real file watcher here instead of doing it each time we change active editor
-      const iconLoadStart = performance.now();
-      batchLoadIcons(filesCache).then(() => {
-        const iconLoadEnd = performance.now();
-        console.log(`  Icon loading: ${(iconLoadEnd - iconLoadStart).toFixed(2)}ms (${filesCache.length} files)`);
-      });
-    });
-  }, 200); // 200ms debounce delay
-});
-
-const picked = vscode.window.createQuickPick<FileQuickPickItem>();
-picked.matchOnDescription = false;
-picked.matchOnDetail = false;
-// picked.enabled = false; // This works and is good, but it disables mouse interactions
-picked.ignoreFocusOut = true;
-const baseTitle = "Smart Open";
-picked.title = baseTitle;
-picked.placeholder = `Select file to open - Custom Labels ${IsCustomLabelsEnabled() ? "ENABLED" : "DISABLED"}`;
-
-picked.onDidChangeValue((value) => {
-  console.log("Input changed:", value);
+/**
+ * Moves to the next scope: all folders, the active folder, then every workspace folder by name
+ */
+function cycleScope(): void {
+  const scopes = ["all", "active", ...(vscode.workspace.workspaceFolders ?? []).map((folder) => folder.name)];
+  scope = scopes[(scopes.indexOf(scope) + 1) % scopes.length];
+}
 
-  // Forward input to active InlineInput if available and value has content
-  if (value.length > 0 && activeInlineInput) {
-    activeInlineInput.handleDirectInput(value);
+/**
+ * Creates the Smart Open QuickPick and registers the listeners it depends on.
+ * Everything is pushed into the module context so it is released when Smart Open is deactivated.
+ */
+export function initializeFileListWithFuzzy(context: vscode.ExtensionContext): void {
+  if (process.env.NODE_ENV !== "development") {
+    context.subscriptions.push(
+      vscode.window.onDidChangeWindowState((event) => {
+        if (!event.focused && activeInlineInput) {
+          activeInlineInput.destroy();
+        }
+      })
+    );
   }
 
-  picked.value = "";
-  const activeEditor = vscode.window.activeTextEditor || vscode.window.visibleTextEditors[0];
-  vscode.window.showTextDocument(activeEditor.document);
-});
+  // Switch editor listener, the file index keeps itself up to date
+  context.subscriptions.push(
+    vscode.window.onDidChangeActiveTextEditor(async (editor) => {
+      console.log("Active editor changed:", editor?.document.uri);
+      if (DEFAULT_SCORE_CONFIG.enabled.git) {
+        if (editor?.document) {
+          // The active file
+          const fileObject: UriExt = {
+            uri: editor.document.uri,
+            fsPath: editor.document.uri.fsPath,
+            fileName: path.basename(editor.document.uri.fsPath),
+            relativePath: vscode.workspace.asRelativePath(editor.document.uri),
+            customLabel: "",
+          };
+
+          const activeWorkspaceFolder = vscode.workspace.getWorkspaceFolder(editor.document.uri);
+          const context = { activeEditor: editor, activeWorkspaceFolder };
+          // Re-evaluate the scoring when the active editor changes
+          scoreCalculator.getScorer<GitScorer>("git")?.calculateScore("", fileObject, context);
+        }
+      }
+    })
+  );
 
-function includeParts(input: string, lowercaseParts: string[]): boolean {
-  const lowerInput = input.toLowerCase();
-  for (const part of lowercaseParts) {
-    if (!lowerInput.includes(part)) {
-      return false;
-    }
-  }
-  return true;
+  picked = vscode.window.createQuickPick<SmartOpenQuickPickItem>();
+  picked.matchOnDescription = false;
+  picked.matchOnDetail = false;
+  // picked.enabled = false; // This works and is good, but it disables mouse interactions
+  picked.ignoreFocusOut = true;
+  picked.title = baseTitle;
+  picked.placeholder = `Select file to open - Custom Labels ${IsCustomLabelsEnabled() ? "ENABLED" : "DISABLED"}`;
+
+  context.subscriptions.push(
+    picked.onDidChangeValue((value) => {
+      console.log("Input changed:", value);
+
+      // Forward input to active InlineInput if available and value has content
+      if (value.length > 0 && activeInlineInput) {
+        activeInlineInput.handleDirectInput(value);
+      }
+
+      picked.value = "";
+      const activeEditor = vscode.window.activeTextEditor || vscode.window.visibleTextEditors[0];
+      vscode.window.showTextDocument(activeEditor.document);
+    }),
+    new vscode.Disposable(() => {
+      if (cursorBlinkTimer) {
+        clearInterval(cursorBlinkTimer);
+        cursorBlinkTimer = undefined;
+      }
+      if (activeInlineInput) {
+        activeInlineInput.destroy();
+      }
+      activeInlineInput = undefined;
+
+      // Hiding runs the onDidHide cleanup of an open search (per-search commands and context)
+      picked.hide();
+      picked.dispose();
+    })
+  );
 }
 
 export async function showFileListWithFuzzy(input: string): Promise<void> {
@@ -114,6 +159,8 @@ export async function showFileListWithFuzzy(input: string): Promise<void> {
 
   console.log("=== Performance Profile: showFileListWithFuzzy ===");
 
+  currentQuery = parseQuery(input);
+
   // Get the currently active editor for context-aware scoring
   const activeEditor = vscode.window.activeTextEditor;
   // const activeFilePath = activeEditor?.document.uri.fsPath;
@@ -123,8 +170,7 @@ export async function showFileListWithFuzzy(input: string): Promise<void> {
     : undefined;
 
   const fileLoadStart = performance.now();
-  // const files = await GetAllFilesInWorkspace();
-  const files: vscode.Uri[] = filesCache.length > 0 ? filesCache : await GetAllFilesInWorkspace();
+  const files: vscode.Uri[] = await fileIndex.getFiles(getScopeFolders(activeWorkspaceFolder));
   const fileLoadEnd = performance.now();
   console.log(`1. File loading: ${(fileLoadEnd - fileLoadStart).toFixed(2)}ms (${files.length} files)`);
 
@@ -153,22 +199,20 @@ export async function showFileListWithFuzzy(input: string): Promise<void> {
 
     const relativePath = vscode.workspace.asRelativePath(file);
 
+    const fileObject: UriExt = {
+      uri: file,
+      fsPath: file.fsPath,
+      fileName: path.basename(file.fsPath),
+      relativePath: relativePath,
+      customLabel: customLabel,
+      workspaceFolder: vscode.workspace.getWorkspaceFolder(file),
+    };
+
     // Quick check if the file should even be included.
     const filterProcessingStart = performance.now();
 
-    let matches = false;
     if (input) {
-      const parts = input.toLowerCase().split(/\s+/);
-      if (customLabel) {
-        matches = includeParts(customLabel, parts);
-        // If custom label doesn't match, try relative path
-        if (!matches) {
-          matches = includeParts(relativePath, parts);
-        }
-        // If it doesn't have a custom label search by relativePath
-      } else {
-        matches = includeParts(relativePath, parts);
-      }
+      const matches = matchesQuery(currentQuery, fileObject);
       // ? Profiling
       const filterProcessingEnd = performance.now();
       totalFilterProcessingTime += filterProcessingEnd - filterProcessingStart;
@@ -179,13 +223,6 @@ export async function showFileListWithFuzzy(input: string): Promise<void> {
       }
     }
 
-    const fileObject: UriExt = {
-      uri: file,
-      fsPath: file.fsPath,
-      fileName: path.basename(file.fsPath),
-      relativePath: relativePath,
-      customLabel: customLabel,
-    };
     filterMatchFiles.push(fileObject);
   });
 
@@ -198,7 +235,7 @@ export async function showFileListWithFuzzy(input: string): Promise<void> {
 
   const items: FileQuickPickItem[] = [];
 
-  const context = activeEditor ? { activeEditor, activeWorkspaceFolder } : undefined;
+  const context = { activeEditor, activeWorkspaceFolder, query: currentQuery };
 
   const fileProcessingStart = performance.now();
   for (let i = 0; i < filterMatchFiles.length; i++) {
@@ -224,13 +261,16 @@ export async function showFileListWithFuzzy(input: string): Promise<void> {
       ? fileInfo.relativePath.replace(/\/[^\/]+$/, "")
       : "";
 
+    const label = fileInfo.customLabel || fileInfo.fileName;
     items.push({
-      label: fileInfo.customLabel || fileInfo.fileName,
+      label: markedFiles.has(fileInfo.uri.toString()) ? `${markPrefix}${label}` : label,
       description: pathWithoutFilename,
       // detail: pathWithoutFilename, // Let's not add detail, we do add in normalizeScores but that has a toggle
       file: fileInfo.uri,
       iconPath: icon ? icon : new vscode.ThemeIcon("file"),
       score: fileScore, // Store the complete score object
+      workspaceFolder: fileInfo.workspaceFolder,
+      buttons: fileItemButtons,
     });
 
     if (i % 100 === 0) {
@@ -297,9 +337,12 @@ export async function showFileListWithFuzzy(input: string): Promise<void> {
   //   }
   // }
 
+  const groupedItems = groupByWorkspaceFolder(sortedItems, activeWorkspaceFolder);
+  fileItems = groupedItems.filter(isFileItem);
+
   const activeEditorForQuickPick = vscode.window.activeTextEditor || vscode.window.visibleTextEditors[0];
   const quickPickStart = performance.now();
-  picked.items = sortedItems;
+  picked.items = groupedItems;
   picked.show();
   vscode.window.showTextDocument(activeEditorForQuickPick.document);
   const quickPickEnd = performance.now();
@@ -315,6 +358,49 @@ export async function showFileListWithFuzzy(input: string): Promise<void> {
   console.log(`Custom labels enabled: ${IsCustomLabelsEnabled()}, processed ${filterMatchFiles.length} files`);
 }
 
+/**
+ * Groups the sorted items per workspace folder under a separator, the active folder first and then in workspace order.
+ * Items stay in one list without separators when they all come from one folder.
+ */
+function groupByWorkspaceFolder(
+  sortedItems: FileQuickPickItem[],
+  activeWorkspaceFolder: vscode.WorkspaceFolder | undefined
+): SmartOpenQuickPickItem[] {
+  const groups = new Map<number, FileQuickPickItem[]>();
+  for (const item of sortedItems) {
+    const index = item.workspaceFolder?.index ?? -1;
+    const group = groups.get(index);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(index, [item]);
+    }
+  }
+
+  if (groups.size <= 1) {
+    return sortedItems;
+  }
+
+  const activeIndex = activeWorkspaceFolder?.index ?? -1;
+  const folderIndexes = [...groups.keys()].sort((a, b) => {
+    if (a === activeIndex || b === activeIndex) {
+      return a === activeIndex ? -1 : 1;
+    }
+    return a - b;
+  });
+
+  const groupedItems: SmartOpenQuickPickItem[] = [];
+  for (const folderIndex of folderIndexes) {
+    const folder = vscode.workspace.workspaceFolders?.[folderIndex];
+    groupedItems.push({
+      label: folder ? folder.name : "Outside the workspace",
+      kind: vscode.QuickPickItemKind.Separator,
+    });
+    groupedItems.push(...groups.get(folderIndex)!);
+  }
+  return groupedItems;
+}
+
 // Cursor blinking state
 let cursorVisible = true;
 let cursorBlinkTimer: NodeJS.Timeout | undefined;
@@ -329,17 +415,24 @@ const QUICK_COMMANDS: Record<string, string> = {
   ":": "workbench.action.gotoLine", // If the user types :, go to line
 };
 
-export async function showQuickPickWithInlineSearch(): Promise<void> {
+/**
+ * @param requestedScope The folders to search, see `vstoys.smart-open.scope`, defaults to the setting
+ */
+export async function showQuickPickWithInlineSearch(requestedScope?: string): Promise<void> {
   const activeEditor = vscode.window.activeTextEditor;
   if (!activeEditor) {
     vscode.window.showErrorMessage("No active editor found");
     return;
   }
 
+  scope = requestedScope ?? vscode.workspace.getConfiguration("vstoys.smart-open").get<string>("scope", "all");
+  picked.buttons = (vscode.workspace.workspaceFolders?.length ?? 0) > 1 ? [scopeButton] : [];
+
   // Set context to enable search keybindings
   await vscode.commands.executeCommand("setContext", "vstoys.smart-open.searching", true);
 
   // Start with empty search to show all files
+  markedFiles.clear();
   await showFileListWithFuzzy("");
 
   let selectedIndex = 0;
@@ -355,12 +448,14 @@ export async function showQuickPickWithInlineSearch(): Promise<void> {
 
   // Update QuickPick selection
   const updateSelection = () => {
-    if (picked.items.length > 0) {
-      selectedIndex = Math.max(0, Math.min(selectedIndex, picked.items.length - 1));
-      picked.activeItems = [picked.items[selectedIndex]];
+    const marked = markedFiles.size > 0 ? ` - ${markedFiles.size} marked` : "";
+    const title = `${baseTitle} (${getScopeLabel()})${marked}`;
+    if (fileItems.length > 0) {
+      selectedIndex = Math.max(0, Math.min(selectedIndex, fileItems.length - 1));
+      picked.activeItems = [fileItems[selectedIndex]];
 
       if (activeInlineInput) {
-        const itemCount = picked.items.length;
+        const itemCount = fileItems.length;
         activeInlineInput.updateStatusBar(
           // `Search: ${activeInlineInput.input} [${selectedIndex + 1}/${itemCount}]`,
           `${activeInlineInput.input} [${selectedIndex + 1}/${itemCount}]`,
@@ -368,7 +463,7 @@ export async function showQuickPickWithInlineSearch(): Promise<void> {
         );
 
         // picked.placeholder = `Search: ${activeInlineInput.input} [${selectedIndex + 1}/${itemCount}]`;
-        picked.title = `${baseTitle} - [${selectedIndex + 1}/${itemCount}]`;
+        picked.title = `${title} - [${selectedIndex + 1}/${itemCount}]`;
         const cursor = cursorVisible ? cursorChar : "";
         picked.placeholder = `${activeInlineInput.input}${cursor}`;
       }
@@ -376,11 +471,11 @@ export async function showQuickPickWithInlineSearch(): Promise<void> {
       // No found items
       if (activeInlineInput) {
         // picked.placeholder = `Search: ${activeInlineInput.input} [0/0]`;
-        picked.title = `${baseTitle} - [0/0]`;
+        picked.title = `${title} - [0/0]`;
         const cursor = cursorVisible ? cursorChar : "";
         picked.placeholder = `${activeInlineInput.input}${cursor}`;
       } else {
-        picked.title = `${baseTitle}`;
+        picked.title = title;
         picked.placeholder = `Search: (No InlineInput)`;
       }
     }
@@ -441,35 +536,96 @@ export async function showQuickPickWithInlineSearch(): Promise<void> {
     });
 
     // Register arrow key commands
-    const upCommand = vscode.commands.registerCommand("vstoys.smart-open.navigateUp", () => {
+    const upCommand = registerRecordedCommand("vstoys.smart-open.navigateUp", () => {
       if (selectedIndex > 0) {
         selectedIndex--;
         updateSelection();
       }
     });
 
-    const downCommand = vscode.commands.registerCommand("vstoys.smart-open.navigateDown", () => {
-      if (selectedIndex < picked.items.length - 1) {
+    const downCommand = registerRecordedCommand("vstoys.smart-open.navigateDown", () => {
+      if (selectedIndex < fileItems.length - 1) {
         selectedIndex++;
         updateSelection();
       }
     });
 
-    const enterCommand = vscode.commands.registerCommand("vstoys.smart-open.selectFile", async () => {
-      const selectedItem = picked.items[selectedIndex];
-      if (selectedItem) {
-        await vscode.commands.executeCommand("setContext", "vstoys.smart-open.searching", false);
-        picked.hide();
-        cancelBlinkingCursor();
-        openFile(selectedItem.file);
-        if (activeInlineInput) {
-          activeInlineInput.destroy();
+    // Ends the search before a picked file opens, onDidHide disposes the per-search commands
+    const closeSearch = async () => {
+      await vscode.commands.executeCommand("setContext", "vstoys.smart-open.searching", false);
+      picked.hide();
+      cancelBlinkingCursor();
+      if (activeInlineInput) {
+        activeInlineInput.destroy();
+      }
+      activeInlineInput = undefined; // Clear the reference
+    };
+
+    // The marked files, or the highlighted file when none are marked
+    const getTargetFiles = (): vscode.Uri[] => {
+      if (markedFiles.size > 0) {
+        return [...markedFiles.values()];
+      }
+      const selectedItem = fileItems[selectedIndex];
+      return selectedItem ? [selectedItem.file] : [];
+    };
+
+    const openTargetFiles = async (mode: OpenMode) => {
+      const files = getTargetFiles();
+      if (files.length > 0) {
+        await closeSearch();
+        openFiles(files, currentQuery, mode);
+      }
+    };
+
+    const enterCommand = registerRecordedCommand("vstoys.smart-open.selectFile", () => openTargetFiles("default"));
+
+    // Marks or unmarks the highlighted file and moves to the next one
+    const toggleMarkCommand = registerRecordedCommand("vstoys.smart-open.toggleMark", () => {
+      const selectedItem = fileItems[selectedIndex];
+      if (!selectedItem) {
+        return;
+      }
+      const key = selectedItem.file.toString();
+      if (markedFiles.delete(key)) {
+        selectedItem.label = selectedItem.label.substring(markPrefix.length);
+      } else {
+        markedFiles.set(key, selectedItem.file);
+        selectedItem.label = `${markPrefix}${selectedItem.label}`;
+      }
+      // Assigning the items again renders the changed label
+      picked.items = [...picked.items];
+      selectedIndex = Math.min(selectedIndex + 1, fileItems.length - 1);
+      updateSelection();
+    });
+
+    const actionCommands = [
+      registerRecordedCommand("vstoys.smart-open.openToSide", () => openTargetFiles("side")),
+      registerRecordedCommand("vstoys.smart-open.openInNewGroup", () => openTargetFiles("newGroup")),
+      registerRecordedCommand("vstoys.smart-open.openPreview", () => openTargetFiles("preview")),
+      registerRecordedCommand("vstoys.smart-open.openPinned", () => openTargetFiles("pinned")),
+      registerRecordedCommand("vstoys.smart-open.revealInExplorer", async () => {
+        const [file] = getTargetFiles();
+        if (file) {
+          await closeSearch();
+          revealInExplorer(file);
         }
-        activeInlineInput = undefined; // Clear the reference
+      }),
+      // Copying keeps the search open
+      registerRecordedCommand("vstoys.smart-open.copyRelativePath", () => copyPaths(getTargetFiles(), true)),
+      registerRecordedCommand("vstoys.smart-open.copyAbsolutePath", () => copyPaths(getTargetFiles(), false)),
+    ];
+
+    // Second stage, lists the symbols of the highlighted file
+    const symbolsCommand = registerRecordedCommand("vstoys.smart-open.showSymbols", async () => {
+      const selectedItem = fileItems[selectedIndex];
+      if (selectedItem) {
+        await closeSearch();
+        showSymbolPicker(selectedItem.file, currentQuery.symbol);
       }
     });
 
-    const backspaceCommand = vscode.commands.registerCommand("vstoys.smart-open.deleteChar", () => {
+    const backspaceCommand = registerRecordedCommand("vstoys.smart-open.deleteChar", () => {
       if (activeInlineInput) {
         const newInput = activeInlineInput.deleteLastCharacter();
         // Trigger search with new input
@@ -480,7 +636,7 @@ export async function showQuickPickWithInlineSearch(): Promise<void> {
       }
     });
 
-    const pasteCommand = vscode.commands.registerCommand("vstoys.smart-open.paste", async () => {
+    const pasteCommand = registerRecordedCommand("vstoys.smart-open.paste", async () => {
       if (activeInlineInput) {
         const clipboardText = await vscode.env.clipboard.readText();
         activeInlineInput.pasteText(clipboardText);
@@ -490,18 +646,42 @@ export async function showQuickPickWithInlineSearch(): Promise<void> {
       }
     });
 
-    // Handle selection from QuickPick
+    const changeScope = () => {
+      cycleScope();
+      showFileListWithFuzzy(activeInlineInput?.input ?? "").then(() => {
+        selectedIndex = 0;
+        updateSelection();
+      });
+    };
+    const scopeCommand = registerRecordedCommand("vstoys.smart-open.cycleScope", changeScope);
+    const disposableButton = picked.onDidTriggerButton(changeScope);
+
+    const disposableItemButton = picked.onDidTriggerItemButton(async ({ button, item }) => {
+      if (!isFileItem(item)) {
+        return;
+      }
+      if (button === copyRelativePathButton) {
+        copyPaths([item.file], true);
+        return;
+      }
+      await closeSearch();
+      if (button === openToSideButton) {
+        openFiles([item.file], currentQuery, "side");
+      } else if (button === revealInExplorerButton) {
+        revealInExplorer(item.file);
+      }
+    });
+
+    // Handle selection from QuickPick, a clicked file opens together with the marked files
     const disposableAccept = picked.onDidAccept(async () => {
-      const selectedItem = picked.selectedItems[0] || picked.items[selectedIndex];
+      const selectedItem = picked.selectedItems.find(isFileItem) || fileItems[selectedIndex];
       if (selectedItem) {
-        await vscode.commands.executeCommand("setContext", "vstoys.smart-open.searching", false);
-        picked.hide();
-        cancelBlinkingCursor();
-        openFile(selectedItem.file);
-        if (activeInlineInput) {
-          activeInlineInput.destroy();
+        const files = [...markedFiles.values()];
+        if (!markedFiles.has(selectedItem.file.toString())) {
+          files.push(selectedItem.file);
         }
-        activeInlineInput = undefined; // Clear the reference
+        await closeSearch();
+        openFiles(files, currentQuery, "default");
       }
     });
 
@@ -520,8 +700,14 @@ export async function showQuickPickWithInlineSearch(): Promise<void> {
       upCommand.dispose();
       downCommand.dispose();
       enterCommand.dispose();
+      symbolsCommand.dispose();
+      toggleMarkCommand.dispose();
+      actionCommands.forEach((command) => command.dispose());
       backspaceCommand.dispose();
       pasteCommand.dispose();
+      scopeCommand.dispose();
+      disposableButton.dispose();
+      disposableItemButton.dispose();
       disposableAccept.dispose();
       disposableHide.dispose();
     });
@@ -540,15 +726,3 @@ export async function showQuickPickWithInlineSearch(): Promise<void> {
     activeInlineInput = undefined; // Clear the reference
   }
 }
-
-async function openFile(uri: vscode.Uri): Promise<void> {
-  try {
-    const doc = await vscode.workspace.openTextDocument(uri);
-    await vscode.window.showTextDocument(doc);
-
-    // File opening is already tracked by RecencyScorer via onDidChangeActiveTextEditor
-    // No need to manually record here anymore
-  } catch (error) {
-    vscode.window.showErrorMessage(`Failed to open file: ${error}`);
-  }
-}
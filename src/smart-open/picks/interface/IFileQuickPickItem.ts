@@ -4,4 +4,16 @@ import { FileScore } from "../../scoring/interface/IScore";
 export interface FileQuickPickItem extends vscode.QuickPickItem {
   file: vscode.Uri;
   score: FileScore;
+  workspaceFolder?: vscode.WorkspaceFolder;
+}
+
+// Heads the results of a workspace folder when the results span several folders
+export interface FolderSeparatorItem extends vscode.QuickPickItem {
+  kind: vscode.QuickPickItemKind.Separator;
+}
+
+export type SmartOpenQuickPickItem = FileQuickPickItem | FolderSeparatorItem;
+
+export function isFileItem(item: SmartOpenQuickPickItem): item is FileQuickPickItem {
+  return item.kind !== vscode.QuickPickItemKind.Separator;
 }
@@ -7,4 +7,6 @@ export interface UriExt {
   fileName: string;
   relativePath: string;
   customLabel: string | undefined;
+  // The workspace folder the file belongs to, if known
+  workspaceFolder?: vscode.WorkspaceFolder;
 }
@@ -0,0 +1,42 @@
+import * as vscode from "vscode";
+import { FlatDocumentSymbol, getDocumentSymbols, getSymbolIcon } from "../../helpers/documentSymbols";
+
+interface SymbolQuickPickItem extends vscode.QuickPickItem {
+  symbol: FlatDocumentSymbol;
+}
+
+/**
+ * Lists the symbols of a file, the picked symbol opens in the editor.
+ * @param initialValue The filter to start with, e.g. the symbol of a `main.ts@activate` search
+ */
+export async function showSymbolPicker(uri: vscode.Uri, initialValue: string = ""): Promise<void> {
+  const symbols = await getDocumentSymbols(uri);
+  const fileName = uri.path.substring(uri.path.lastIndexOf("/") + 1);
+  if (symbols.length === 0) {
+    vscode.window.showInformationMessage(`No symbols found in ${fileName}`);
+    return;
+  }
+
+  const quickPick = vscode.window.createQuickPick<SymbolQuickPickItem>();
+  quickPick.title = `Smart Open: Symbols in ${fileName}`;
+  quickPick.placeholder = "Search symbols...";
+  quickPick.matchOnDescription = true;
+  quickPick.value = initialValue;
+  quickPick.items = symbols.map((symbol) => ({
+    label: `${"  ".repeat(symbol.containers.length)}${symbol.name}`,
+    description: symbol.detail || symbol.containers.join("."),
+    iconPath: getSymbolIcon(symbol.kind),
+    symbol,
+  }));
+
+  quickPick.onDidAccept(() => {
+    const item = quickPick.selectedItems[0] ?? quickPick.activeItems[0];
+    quickPick.hide();
+    if (item) {
+      const position = item.symbol.selectionRange.start;
+      vscode.window.showTextDocument(uri, { selection: new vscode.Range(position, position) });
+    }
+  });
+  quickPick.onDidHide(() => quickPick.dispose());
+  quickPick.show();
+}
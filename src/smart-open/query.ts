@@ -0,0 +1,125 @@
+import * as vscode from "vscode";
+import { UriExt } from "./picks/interface/IUriExt";
+
+/**
+ * A parsed Smart Open search, e.g. `ext:ts dir:src/jump !test 'Handler main:42` or `main@activate`
+ */
+export interface SmartOpenQuery {
+  // Lowercase parts that must each be in the path or custom label, and are fuzzy scored
+  terms: string[];
+  // Parts written as `'Part` that must be in the path or custom label with the exact same case
+  exactTerms: string[];
+  // Lowercase extensions without the dot from `ext:ts`, a file needs one of them
+  extensions: string[];
+  // Lowercase path prefixes from `dir:src/jump` or `src/jump/`, a file needs one of them
+  directories: string[];
+  // Lowercase parts from `!test` that must not be in the path or custom label
+  excludes: string[];
+  // The 1-based line from `main.ts:42` or `:42` to open the file at
+  line?: number;
+  // The 1-based column from `main.ts:42:5`
+  column?: number;
+  // The symbol from `main.ts@activate` to open the file at
+  symbol?: string;
+}
+
+/**
+ * Splits the input on whitespace and sorts every part by its syntax, plain parts become terms.
+ */
+export function parseQuery(input: string): SmartOpenQuery {
+  const query: SmartOpenQuery = { terms: [], exactTerms: [], extensions: [], directories: [], excludes: [] };
+
+  for (let part of input.trim().split(/\s+/)) {
+    const lineMatch = part.match(/^(.*?):(\d+)(?::(\d+))?$/);
+    if (lineMatch) {
+      query.line = parseInt(lineMatch[2], 10);
+      query.column = lineMatch[3] ? parseInt(lineMatch[3], 10) : undefined;
+      part = lineMatch[1];
+    }
+    // Not a scoped package like node_modules/@types, the @ follows a file name
+    const symbolMatch = part.match(/^(.*[^/\\])@([^/\\]+)$/);
+    if (symbolMatch) {
+      query.symbol = symbolMatch[2];
+      part = symbolMatch[1];
+    }
+    if (part.length === 0) {
+      continue;
+    }
+
+    const lowerPart = part.toLowerCase();
+    if (lowerPart.startsWith("ext:")) {
+      const extension = lowerPart.slice(4).replace(/^\./, "");
+      if (extension) {
+        query.extensions.push(extension);
+      }
+    } else if (lowerPart.startsWith("dir:")) {
+      const directory = normalizeDirectory(lowerPart.slice(4));
+      if (directory) {
+        query.directories.push(directory);
+      }
+    } else if (part.startsWith("!")) {
+      if (part.length > 1) {
+        query.excludes.push(lowerPart.slice(1));
+      }
+    } else if (part.startsWith("'")) {
+      if (part.length > 1) {
+        query.exactTerms.push(part.slice(1));
+      }
+    } else if (/[/\\]$/.test(part)) {
+      const directory = normalizeDirectory(lowerPart);
+      if (directory) {
+        query.directories.push(directory);
+      }
+    } else {
+      query.terms.push(lowerPart);
+    }
+  }
+
+  return query;
+}
+
+function normalizeDirectory(directory: string): string {
+  return directory
+    .replace(/\\/g, "/")
+    .replace(/^\.?\//, "")
+    .replace(/\/+$/, "");
+}
+
+function includesAll(text: string, parts: string[]): boolean {
+  return parts.every((part) => text.includes(part));
+}
+
+/**
+ * Whether a file passes the filters of the query. Terms match the custom label or the relative path,
+ * directories match the path relative to the workspace, or to the workspace folder of the file.
+ */
+export function matchesQuery(query: SmartOpenQuery, file: UriExt): boolean {
+  const lowerPath = file.relativePath.toLowerCase();
+  const lowerLabel = file.customLabel?.toLowerCase();
+
+  if (query.excludes.some((exclude) => lowerPath.includes(exclude) || lowerLabel?.includes(exclude))) {
+    return false;
+  }
+
+  if (query.extensions.length > 0) {
+    const lowerFileName = file.fileName.toLowerCase();
+    if (!query.extensions.some((extension) => lowerFileName.endsWith(`.${extension}`))) {
+      return false;
+    }
+  }
+
+  if (query.directories.length > 0) {
+    const folderPath = () => vscode.workspace.asRelativePath(file.uri, false).replace(/\\/g, "/").toLowerCase();
+    const inDirectory = (path: string) => query.directories.some((directory) => path.startsWith(`${directory}/`));
+    if (!inDirectory(lowerPath) && !inDirectory(folderPath())) {
+      return false;
+    }
+  }
+
+  const matchesTerms = (text: string, lowerText: string) =>
+    includesAll(lowerText, query.terms) && includesAll(text, query.exactTerms);
+  return (
+    (file.customLabel !== undefined && matchesTerms(file.customLabel, lowerLabel!)) ||
+    matchesTerms(file.relativePath, lowerPath)
+  );
+}
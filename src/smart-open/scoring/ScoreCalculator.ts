@@ -1,4 +1,4 @@
-import { IScorer } from "./interface/IScorer";
+import { IScorer, ScoreNormalization } from "./interface/IScorer";
 import { UriExt } from "../picks/interface/IUriExt";
 import { FileScore, ScoreConfig, DEFAULT_SCORE_CONFIG } from "./interface/IScore";
 import { ScoringContext } from "./interface/IContextScorer";
@@ -10,30 +10,63 @@ import { GitScorer } from "./Scorers/GitScorer";
 import { RelationshipScorer } from "./Scorers/RelationshipScorer";
 import * as vscode from "vscode";
 import { FileQuickPickItem } from "../picks/interface/IFileQuickPickItem";
+import { getContributedScorers, onDidChangeContributedScorers } from "./scorerRegistry";
+
+// Between 0-MAX_VALUE, example: 0-100 if MAX_VALUE is 100
+const MAX_VALUE = 100;
+
+// Applied to raw scores before they are spread over the range of the search
+const normalizationTransforms: Record<ScoreNormalization, (value: number) => number> = {
+  linear: (value) => value,
+  log: (value) => Math.log(value + 1),
+  sqrt: (value) => Math.sqrt(value),
+};
+
+/**
+ * Creates the function that maps the raw scores of a scorer to 0-MAX_VALUE times its weight
+ */
+function createNormalizer(
+  scorer: IScorer,
+  range: { min: number; max: number },
+  weight: number
+): (value: number) => number {
+  const transform = normalizationTransforms[scorer.normalization] ?? normalizationTransforms.linear;
+  const min = transform(range.min);
+  const transformedRange = (transform(range.max) - min) * (1 + (scorer.normalizationSmoothing ?? 0));
+  // If all values are the same, return 0 for all
+  if (transformedRange === 0 || isNaN(transformedRange)) {
+    return () => 0;
+  }
+  return (value) => ((transform(value) - min) / transformedRange) * MAX_VALUE * weight;
+}
 
 /**
  * Main scoring engine that combines multiple scoring algorithms
  */
 export class ScoreCalculator {
+  // The built-in scorers, in the order they are scored and shown in the debug details
   private scorers: Map<string, IScorer> = new Map();
+  // The built-in and contributed scorers, rebuilt when a scorer is contributed or removed
+  private allScorers: IScorer[] | undefined;
   private config: ScoreConfig;
   private context: vscode.ExtensionContext;
+  private registryListener: vscode.Disposable;
 
   constructor(context: vscode.ExtensionContext, config: ScoreConfig = DEFAULT_SCORE_CONFIG) {
     this.config = { ...config };
     this.context = context;
     this.initializeScorers();
+    this.registryListener = onDidChangeContributedScorers(() => (this.allScorers = undefined));
   }
 
   private initializeScorers(): void {
     const scorers = [
       new FuzzyScorer(this.context),
+      new ClosenessScorer(this.context),
       new RecencyScorer(this.context),
       new FrequencyScorer(this.context),
-      new ClosenessScorer(this.context), // Add the new closeness scorer
-      new GitScorer(this.context), // Add the git co-change scorer
-      new RelationshipScorer(this.context), // Add the relationship scorer
-      // ! NEW-SCORER-INSERT-HERE
+      new GitScorer(this.context),
+      new RelationshipScorer(this.context),
     ];
 
     for (const scorer of scorers) {
@@ -41,68 +74,46 @@ export class ScoreCalculator {
     }
   }
 
+  /**
+   * The built-in scorers followed by the contributed ones, registerScorer rejects the types of built-in scorers
+   */
+  private getScorers(): IScorer[] {
+    if (!this.allScorers) {
+      this.allScorers = [...this.scorers.values(), ...getContributedScorers()];
+    }
+    return this.allScorers;
+  }
+
   /**
    * Calculate comprehensive score for a file
    * @returns FileScore or null if file should be hidden
    */
   calculateScore(input: string, file: UriExt, context?: ScoringContext): FileScore | null {
-    const scores: Partial<FileScore> = {
-      input,
-      scoredAt: Date.now(),
-    };
+    const scores: Record<string, number> = {};
 
-    // let finalScore = 0;
-    // let totalWeight = 0;
-
-    // Calculate individual scores
-    // const scorersStart = performance.now();
-    for (const [type, scorer] of this.scorers.entries()) {
-      if (!this.isEnabled(type)) {
+    for (const scorer of this.getScorers()) {
+      if (!this.isEnabled(scorer)) {
         continue;
       }
 
-      const result = scorer.calculateScore(input, file, context);
+      let result: number | null;
+      try {
+        result = scorer.calculateScore(input, file, context);
+      } catch (error) {
+        // A failing scorer, e.g. a contributed one, should not break the search
+        console.error(`Scorer ${scorer.type} failed for ${file.fsPath}:`, error);
+        continue;
+      }
 
       // If any scorer returns null, hide the file immediately
       if (result === null) {
         return null;
       }
 
-      const score = result;
-      // const weight = this.getWeight(type); // Store individual score
-      switch (type) {
-        case "fuzzy":
-          scores.fuzzyScore = score;
-          break;
-        case "recency":
-          scores.recencyScore = score;
-          break;
-        case "frequency":
-          scores.frequencyScore = score;
-          break;
-        case "closeness":
-          scores.closenessScore = score;
-          break;
-        case "git":
-          scores.gitScore = score;
-          break;
-        case "relationship":
-          scores.relationshipScore = score;
-          break;
-        // ! NEW-SCORER-INSERT-HERE
-      }
-
-      // Contribute to final weighted score
-      // finalScore += score * weight;
-      // totalWeight += weight;
+      scores[scorer.type] = result;
     }
-    // console.log(`Final scores for ${file.fsPath}:`, scores);
-    // const scorersEnd = performance.now();
-    // console.log(`Scorers took ${(scorersEnd - scorersStart).toFixed(2)}ms for ${file.fsPath}`);
-    // Normalize final score
-    // scores.finalScore = totalWeight > 0 ? finalScore / totalWeight : 0;
 
-    return scores as FileScore;
+    return { scores, finalScore: 0, input, scoredAt: Date.now() };
   }
 
   /**
@@ -132,7 +143,7 @@ export class ScoreCalculator {
    * Get a specific scorer instance (for advanced usage like recording events)
    */
   getScorer<T extends IScorer>(type: string): T | undefined {
-    return this.scorers.get(type) as T;
+    return this.getScorers().find((scorer) => scorer.type === type) as T | undefined;
   }
 
   /**
@@ -150,201 +161,67 @@ export class ScoreCalculator {
       return items;
     }
 
-    // First pass: Track min/max for each score type during iteration
-    const scoreRanges = {
-      fuzzy: { min: Infinity, max: -Infinity },
-      recency: { min: Infinity, max: -Infinity },
-      frequency: { min: Infinity, max: -Infinity },
-      closeness: { min: Infinity, max: -Infinity },
-      git: { min: Infinity, max: -Infinity },
-      relationship: { min: Infinity, max: -Infinity },
-      // ! NEW-SCORER-INSERT-HERE
-    };
+    const scorers = this.getScorers();
 
+    // First pass: Track min/max for each score type during iteration
+    const scoreRanges = new Map<string, { min: number; max: number }>();
     for (const item of items) {
-      const score = item.score;
-      if (!score) continue;
-
-      if (score.fuzzyScore !== undefined && !isNaN(score.fuzzyScore)) {
-        scoreRanges.fuzzy.min = Math.min(scoreRanges.fuzzy.min, score.fuzzyScore);
-        scoreRanges.fuzzy.max = Math.max(scoreRanges.fuzzy.max, score.fuzzyScore);
-      }
-      if (score.recencyScore !== undefined && !isNaN(score.recencyScore)) {
-        scoreRanges.recency.min = Math.min(scoreRanges.recency.min, score.recencyScore);
-        scoreRanges.recency.max = Math.max(scoreRanges.recency.max, score.recencyScore);
-      }
-      if (score.frequencyScore !== undefined && !isNaN(score.frequencyScore)) {
-        scoreRanges.frequency.min = Math.min(scoreRanges.frequency.min, score.frequencyScore);
-        scoreRanges.frequency.max = Math.max(scoreRanges.frequency.max, score.frequencyScore);
-      }
-      if (score.closenessScore !== undefined && !isNaN(score.closenessScore)) {
-        scoreRanges.closeness.min = Math.min(scoreRanges.closeness.min, score.closenessScore);
-        scoreRanges.closeness.max = Math.max(scoreRanges.closeness.max, score.closenessScore);
-      }
-      if (score.gitScore !== undefined && !isNaN(score.gitScore)) {
-        scoreRanges.git.min = Math.min(scoreRanges.git.min, score.gitScore);
-        scoreRanges.git.max = Math.max(scoreRanges.git.max, score.gitScore);
+      const scores = item.score?.scores;
+      if (!scores) {
+        continue;
       }
-      if (score.relationshipScore !== undefined && !isNaN(score.relationshipScore)) {
-        scoreRanges.relationship.min = Math.min(scoreRanges.relationship.min, score.relationshipScore);
-        scoreRanges.relationship.max = Math.max(scoreRanges.relationship.max, score.relationshipScore);
+
+      for (const [type, value] of Object.entries(scores)) {
+        if (isNaN(value)) {
+          continue;
+        }
+        const range = scoreRanges.get(type);
+        if (range) {
+          range.min = Math.min(range.min, value);
+          range.max = Math.max(range.max, value);
+        } else {
+          scoreRanges.set(type, { min: value, max: value });
+        }
       }
-      // ! NEW-SCORER-INSERT-HERE
     }
     console.log(scoreRanges);
 
-    // Between 0-MAX_VALUE, example: 0-100 if MAX_VALUE is 100
-    const MAX_VALUE = 100;
-    // Threshold for switching from linear to square root normalization for frequency scores
-    // Do not use any value below 10 here, 100 is a good value imo.
-    // const MAX_RAW_BEFORE_NORMALIZATION = MAX_VALUE;
-    // Create normalization functions for each score type
-    const createNormalizer = (type: string, range: { min: number; max: number }) => {
-      // If min is still Infinity, no values were processed
-      if (range.min === Infinity) return (val: number) => val;
-      const weight = this.getWeight(type);
-      const rangeSize = range.max - range.min;
-
-      // Choose normalization strategy based on score type
-      switch (type) {
-        case "fuzzy":
-          // If all values are the same, return 0 for all
-          if (rangeSize === 0) return (val: number) => 0;
-          // Fuzzy scores are already well-distributed, use linear normalization
-          return (val: number) => ((val - range.min) / rangeSize) * MAX_VALUE * weight;
-
-        case "frequency":
-          // Hybrid normalization: use raw values for better granularity when max <= threshold,
-          // switch to logarithmic normalization for larger ranges to prevent score inflation
-          // if (range.max <= MAX_RAW_BEFORE_NORMALIZATION) {
-          //   // return (val: number) => ((val - range.min) / rangeSize) * MAX_VALUE * weight;
-          //   return (val: number) => Math.min(Math.max(0, val * weight), MAX_VALUE); // We do min(MAX_VALUE) just for extra safety.
-          // } else {
-          // If all values are the same, return 0 for all
-          if (rangeSize === 0) return (val: number) => 0;
-          // Use logarithmic normalization for larger ranges to compress high values
-          return (val: number) => {
-            const logVal = Math.log(val + 1);
-            const logMin = Math.log(range.min + 1);
-            const logMax = Math.log(range.max + 1);
-            const logRange = logMax - logMin;
-            if (logRange === 0) return 0;
-            return ((logVal - logMin) / logRange) * MAX_VALUE * weight;
-          };
-        // }
-
-        case "git":
-          // Count-based scores benefit from logarithmic normalization
-          return (val: number) => {
-            const logVal = Math.log(val + 1);
-            const logMin = Math.log(range.min + 1);
-            const logMax = Math.log(range.max + 1);
-            const logRange = logMax - logMin;
-            if (logRange === 0) return 0;
-            return ((logVal - logMin) / logRange) * MAX_VALUE * weight;
-          };
-
-        case "recency":
-          // Recency scores benefit from square root normalization (between linear and log)
-          return (val: number) => {
-            const sqrtVal = Math.sqrt(val);
-            const sqrtMin = Math.sqrt(range.min);
-            const sqrtMax = Math.sqrt(range.max);
-            const sqrtRange = sqrtMax - sqrtMin;
-            if (sqrtRange === 0) return 0;
-            return ((sqrtVal - sqrtMin) / sqrtRange) * MAX_VALUE * weight;
-          };
-
-        case "relationship":
-          // Relationship scores benefit from logarithmic normalization similar to git
-          return (val: number) => {
-            const logVal = Math.log(val + 1);
-            const logMin = Math.log(range.min + 1);
-            const logMax = Math.log(range.max + 1);
-            const logRange = logMax - logMin;
-            if (logRange === 0) return 0;
-            return ((logVal - logMin) / logRange) * MAX_VALUE * weight;
-          };
-
-        case "closeness":
-        default:
-          // if (range.max <= MAX_RAW_BEFORE_NORMALIZATION) {
-          //   return (val: number) => Math.min(Math.max(0, val * weight), MAX_VALUE); // We do min(MAX_VALUE) just for extra safety.
-          // } else {
-          // If all values are the same, return 0 for all
-          if (rangeSize === 0) return (val: number) => 0;
-          // Default to linear normalization with slight smoothing
-          const smoothingFactor = rangeSize * 0.1; // 10% smoothing
-          const adjustedRange = rangeSize + smoothingFactor;
-          return (val: number) => ((val - range.min) / adjustedRange) * MAX_VALUE * weight;
-        // }
+    // Each scorer declares its own normalization strategy
+    const normalizers = new Map<string, (value: number) => number>();
+    for (const scorer of scorers) {
+      const range = scoreRanges.get(scorer.type);
+      if (range) {
+        normalizers.set(scorer.type, createNormalizer(scorer, range, this.getWeight(scorer)));
       }
-    };
-
-    const normalizeFuzzy = createNormalizer("fuzzy", scoreRanges.fuzzy);
-    const normalizeRecency = createNormalizer("recency", scoreRanges.recency);
-    const normalizeFrequency = createNormalizer("frequency", scoreRanges.frequency);
-    const normalizeCloseness = createNormalizer("closeness", scoreRanges.closeness);
-    const normalizeGit = createNormalizer("git", scoreRanges.git);
-    const normalizeRelationship = createNormalizer("relationship", scoreRanges.relationship);
-    // ! NEW-SCORER-INSERT-HERE
+    }
 
     // Second pass: Apply normalization to all items
     for (const item of items) {
       const score = item.score;
-      if (!score) continue;
+      if (!score) {
+        continue;
+      }
 
       // Initialize final score
       score.finalScore = 0;
 
       // Normalize each score type
-      if (score.fuzzyScore !== undefined && !isNaN(score.fuzzyScore)) {
-        score.fuzzyScore = normalizeFuzzy(score.fuzzyScore); // Ceil to avoid 0.1 scores
-        score.finalScore += score.fuzzyScore;
-      }
-      if (score.recencyScore !== undefined && !isNaN(score.recencyScore)) {
-        score.recencyScore = normalizeRecency(score.recencyScore); // Ceil to avoid 0.1 scores
-        score.finalScore += score.recencyScore;
-      }
-      if (score.frequencyScore !== undefined && !isNaN(score.frequencyScore)) {
-        score.frequencyScore = normalizeFrequency(score.frequencyScore); // Ceil to avoid 0.1 scores
-        score.finalScore += score.frequencyScore;
-      }
-      if (score.closenessScore !== undefined && !isNaN(score.closenessScore)) {
-        score.closenessScore = normalizeCloseness(score.closenessScore); // Ceil to avoid 0.1 scores
-        score.finalScore += score.closenessScore;
-      }
-      if (score.gitScore !== undefined && !isNaN(score.gitScore)) {
-        score.gitScore = normalizeGit(score.gitScore); // Ceil to avoid 0.1 scores
-        score.finalScore += score.gitScore;
+      for (const [type, value] of Object.entries(score.scores)) {
+        const normalize = normalizers.get(type);
+        if (normalize && !isNaN(value)) {
+          score.scores[type] = normalize(value);
+          score.finalScore += score.scores[type];
+        }
       }
-      if (score.relationshipScore !== undefined && !isNaN(score.relationshipScore)) {
-        score.relationshipScore = normalizeRelationship(score.relationshipScore); // Ceil to avoid 0.1 scores
-        score.finalScore += score.relationshipScore;
-      }
-      // ! NEW-SCORER-INSERT-HERE
 
       // Create a description with all values
       let scoreString = `${score.finalScore?.toFixed(2)} - |`;
-      if (score.fuzzyScore !== undefined) {
-        scoreString += `Fuz: ${score.fuzzyScore.toFixed(1)}|`;
-      }
-      if (score.closenessScore !== undefined) {
-        scoreString += `Clo: ${score.closenessScore.toFixed(1)}|`;
-      }
-      if (score.recencyScore !== undefined) {
-        scoreString += `Recent: ${score.recencyScore.toFixed(1)}|`;
-      }
-      if (score.frequencyScore !== undefined) {
-        scoreString += `Freq: ${score.frequencyScore.toFixed(1)}|`;
+      for (const scorer of scorers) {
+        const value = score.scores[scorer.type];
+        if (value !== undefined) {
+          scoreString += `${scorer.debugLabel}: ${value.toFixed(1)}|`;
+        }
       }
-      if (score.gitScore !== undefined) {
-        scoreString += `Git: ${score.gitScore.toFixed(1)}|`;
-      }
-      if (score.relationshipScore !== undefined) {
-        scoreString += `Rel: ${score.relationshipScore.toFixed(1)}`;
-      }
-      // ! NEW-SCORER-INSERT-HERE
 
       if (debugDetail) {
         item.detail = scoreString;
@@ -360,49 +237,17 @@ export class ScoreCalculator {
   }
 
   /**
-   * Check if a scorer type is enabled
+   * Check if a scorer is enabled, the config overrides the default of the scorer
    */
-  private isEnabled(type: string): boolean {
-    switch (type) {
-      case "fuzzy":
-        return this.config.enabled.fuzzy;
-      case "recency":
-        return this.config.enabled.recency;
-      case "frequency":
-        return this.config.enabled.frequency;
-      case "closeness":
-        return this.config.enabled.closeness;
-      case "git":
-        return this.config.enabled.git;
-      case "relationship":
-        return this.config.enabled.relationship;
-      // ! NEW-SCORER-INSERT-HERE
-      default:
-        return false;
-    }
+  private isEnabled(scorer: IScorer): boolean {
+    return this.config.enabled[scorer.weightKey] ?? scorer.enabled;
   }
 
   /**
-   * Get weight for a scorer type
+   * Get the weight of a scorer, the config overrides the default of the scorer
    */
-  private getWeight(type: string): number {
-    switch (type) {
-      case "fuzzy":
-        return this.config.weights.fuzzy;
-      case "recency":
-        return this.config.weights.recency;
-      case "frequency":
-        return this.config.weights.frequency;
-      case "closeness":
-        return this.config.weights.closeness;
-      case "git":
-        return this.config.weights.git;
-      case "relationship":
-        return this.config.weights.relationship;
-      // ! NEW-SCORER-INSERT-HERE
-      default:
-        return 0;
-    }
+  private getWeight(scorer: IScorer): number {
+    return this.config.weights[scorer.weightKey] ?? scorer.defaultWeight;
   }
 
   /**
@@ -411,4 +256,16 @@ export class ScoreCalculator {
   getConfig(): ScoreConfig {
     return { ...this.config };
   }
+
+  /**
+   * Dispose all scorers, releasing their listeners and persisting their data
+   */
+  dispose(): void {
+    this.registryListener.dispose();
+    // Contributed scorers belong to the extension that contributed them
+    for (const scorer of this.scorers.values()) {
+      scorer.dispose?.();
+    }
+    this.scorers.clear();
+  }
 }
@@ -1,6 +1,7 @@
 import * as vscode from "vscode";
 import { IContextScorer, ScoringContext } from "../interface/IContextScorer";
 import { UriExt } from "../../picks/interface/IUriExt";
+import { isOutsideActiveWorkspaceFolder } from "../helpers/workspaceFolder";
 
 /**
  * ClosenessScorer - gives higher scores to files that are "close" to the currently active editor
@@ -11,6 +12,10 @@ export class ClosenessScorer implements IContextScorer {
   readonly name = "Path Closeness";
   readonly enabled = false; // Disabled by default
   readonly defaultWeight = 0.25;
+  readonly weightKey = "closeness";
+  readonly normalization = "linear";
+  readonly normalizationSmoothing = 0.1; // 10% smoothing
+  readonly debugLabel = "Clo";
   readonly requiresContext = true; // This scorer needs access to active editor
   readonly context?: vscode.ExtensionContext;
 
@@ -22,6 +27,9 @@ export class ClosenessScorer implements IContextScorer {
     if (!context?.activeEditor) {
       return 0; // Can't calculate closeness without active editor
     }
+    if (isOutsideActiveWorkspaceFolder(file, context)) {
+      return 0; // Paths of other workspace folders are not close, even when they look alike
+    }
 
     const activeEditorUri = context.activeEditor.document.uri;
     const activeEditorPath = vscode.workspace.asRelativePath(activeEditorUri);
@@ -14,6 +14,9 @@ export class FrequencyScorer implements IScorer {
   readonly name = "File Frequency";
   readonly enabled = true; // Enable frequency tracking with persistence
   readonly defaultWeight = 0.2;
+  readonly weightKey = "frequency";
+  readonly normalization = "log"; // Compresses high access counts to prevent score inflation
+  readonly debugLabel = "Freq";
   readonly requiresContext = false;
 
   private fileFrequency: Map<string, number> = new Map(); // fsPath -> access count
@@ -21,6 +24,7 @@ export class FrequencyScorer implements IScorer {
   private lastDecayAtAccessCount: number = 0; // When we last applied decay
   private context: vscode.ExtensionContext | undefined;
   private saveTimeout: NodeJS.Timeout | undefined;
+  private disposables: vscode.Disposable[] = [];
 
   constructor(context?: vscode.ExtensionContext) {
     this.context = context;
@@ -29,24 +33,30 @@ export class FrequencyScorer implements IScorer {
     this.loadPersistedData();
 
     // Track file access via active editor changes
-    vscode.window.onDidChangeActiveTextEditor((editor) => {
-      if (editor?.document) {
-        this.recordFileAccessed(editor.document.uri.fsPath);
-      }
-    });
+    this.disposables.push(
+      vscode.window.onDidChangeActiveTextEditor((editor) => {
+        if (editor?.document) {
+          this.recordFileAccessed(editor.document.uri.fsPath);
+        }
+      })
+    );
 
     // Save triggers
-    vscode.window.onDidChangeWindowState((state) => {
-      if (!state.focused) {
-        // User switched away from VS Code - good time to save
+    this.disposables.push(
+      vscode.window.onDidChangeWindowState((state) => {
+        if (!state.focused) {
+          // User switched away from VS Code - good time to save
+          this.savePersistedData();
+        }
+      })
+    );
+
+    this.disposables.push(
+      vscode.workspace.onDidChangeWorkspaceFolders(() => {
+        // Save before workspace changes
         this.savePersistedData();
-      }
-    });
-
-    vscode.workspace.onDidChangeWorkspaceFolders(() => {
-      // Save before workspace changes
-      this.savePersistedData();
-    });
+      })
+    );
   }
 
   calculateScore(input: string, file: UriExt, context?: ScoringContext): number {
@@ -211,4 +221,13 @@ export class FrequencyScorer implements IScorer {
     }
     this.savePersistedData();
   }
+
+  /**
+   * Save pending data and release the event listeners (useful for module deactivation)
+   */
+  public dispose(): void {
+    this.forceSave();
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this.disposables = [];
+  }
 }
@@ -3,6 +3,7 @@ import { IScorer } from "../interface/IScorer";
 import { UriExt } from "../../picks/interface/IUriExt";
 import { ScoringContext } from "../interface/IContextScorer";
 import { score } from "../../fzy";
+import { parseQuery } from "../../query";
 
 /**
  * Fuzzy matching scorer using the fzy algorithm
@@ -12,6 +13,9 @@ export class FuzzyScorer implements IScorer {
   readonly name = "Fuzzy Match";
   readonly enabled = true;
   readonly defaultWeight = 1.0;
+  readonly weightKey = "fuzzy";
+  readonly normalization = "linear"; // Fuzzy scores are already well-distributed
+  readonly debugLabel = "Fuz";
   readonly requiresContext = false;
   readonly context?: vscode.ExtensionContext;
 
@@ -31,10 +35,9 @@ export class FuzzyScorer implements IScorer {
 
     // Split input on whitespace to enable multi-term fuzzy searching
     // This allows searches like "dep cc" to match "deploy_cpp"
-    const searchTerms = input
-      .trim()
-      .split(/\s+/)
-      .filter((term) => term.length > 0);
+    // Filters like ext:ts and !test are not scored, only the plain and exact terms
+    const query = context?.query ?? parseQuery(input);
+    const searchTerms = [...query.terms, ...query.exactTerms];
 
     let labelScore = 0;
     let fileScore = 0;
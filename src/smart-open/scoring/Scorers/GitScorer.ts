@@ -15,6 +15,9 @@ export class GitScorer implements IContextScorer {
   readonly name = "Git Co-Change Scorer";
   readonly enabled = true;
   readonly defaultWeight = 0.4;
+  readonly weightKey = "git";
+  readonly normalization = "log"; // Count-based scores benefit from logarithmic normalization
+  readonly debugLabel = "Git";
   readonly requiresContext = true; // Requires active editor context
   readonly context?: vscode.ExtensionContext;
 
@@ -11,6 +11,9 @@ export class RecencyScorer implements IScorer {
   readonly name = "Recent Files";
   readonly enabled = true; // Enable recency tracking
   readonly defaultWeight = 0.3;
+  readonly weightKey = "recency";
+  readonly normalization = "sqrt"; // Between linear and log
+  readonly debugLabel = "Recent";
   readonly requiresContext = false;
 
   private recentFiles: Map<string, number> = new Map(); // fsPath -> timestamp
@@ -18,29 +21,36 @@ export class RecencyScorer implements IScorer {
   private debounceTimeout: NodeJS.Timeout | undefined;
   private context: vscode.ExtensionContext | undefined;
   private saveTimeout: NodeJS.Timeout | undefined;
+  private disposables: vscode.Disposable[] = [];
 
   constructor(context?: vscode.ExtensionContext) {
     this.context = context;
 
     // Save and Load logic
     this.loadPersistedData();
-    vscode.window.onDidChangeWindowState((state) => {
-      if (!state.focused) {
-        // User switched away from VS Code - good time to save
+    this.disposables.push(
+      vscode.window.onDidChangeWindowState((state) => {
+        if (!state.focused) {
+          // User switched away from VS Code - good time to save
+          this.savePersistedData();
+        }
+      })
+    );
+    this.disposables.push(
+      vscode.workspace.onDidChangeWorkspaceFolders(() => {
+        // Save before workspace changes
         this.savePersistedData();
-      }
-    });
-    vscode.workspace.onDidChangeWorkspaceFolders(() => {
-      // Save before workspace changes
-      this.savePersistedData();
-    });
+      })
+    );
 
     // Recency tracking
-    vscode.window.onDidChangeActiveTextEditor((editor) => {
-      if (editor?.document) {
-        this.debouncedRecordFileOpened(editor.document.uri.fsPath);
-      }
-    });
+    this.disposables.push(
+      vscode.window.onDidChangeActiveTextEditor((editor) => {
+        if (editor?.document) {
+          this.debouncedRecordFileOpened(editor.document.uri.fsPath);
+        }
+      })
+    );
   }
 
   calculateScore(input: string, file: UriExt, context?: ScoringContext): number {
@@ -163,4 +173,16 @@ export class RecencyScorer implements IScorer {
     }
     this.savePersistedData();
   }
+
+  /**
+   * Save pending data and release the event listeners (useful for module deactivation)
+   */
+  public dispose(): void {
+    if (this.debounceTimeout) {
+      clearTimeout(this.debounceTimeout);
+    }
+    this.forceSave();
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this.disposables = [];
+  }
 }
@@ -1,6 +1,7 @@
 import * as vscode from "vscode";
 import { IContextScorer, ScoringContext } from "../interface/IContextScorer";
 import { UriExt } from "../../picks/interface/IUriExt";
+import { isOutsideActiveWorkspaceFolder } from "../helpers/workspaceFolder";
 
 // Configuration constants
 const DECAY_EVERY_N_ACCESSES = 100; // Apply decay every N file accesses
@@ -22,6 +23,9 @@ export class RelationshipScorer implements IContextScorer {
   readonly name = "File Relationships";
   readonly enabled = true;
   readonly defaultWeight = 0.3;
+  readonly weightKey = "relationship";
+  readonly normalization = "log"; // Count-based scores benefit from logarithmic normalization
+  readonly debugLabel = "Rel";
   readonly requiresContext = true; // Needs active editor context
 
   // Map from file path to its relationships with other files
@@ -29,6 +33,7 @@ export class RelationshipScorer implements IContextScorer {
   private lastActiveDocument: vscode.TextDocument | undefined;
   private debounceTimeout: NodeJS.Timeout | undefined;
   private saveTimeout: NodeJS.Timeout | undefined;
+  private disposables: vscode.Disposable[] = [];
   private context: vscode.ExtensionContext | undefined;
   private globalFileAccessCount: number = 0; // Total file accesses across all files
   private lastDecayAtAccessCount: number = 0; // When we last applied decay
@@ -40,28 +45,37 @@ export class RelationshipScorer implements IContextScorer {
     this.loadPersistedData();
 
     // Save data on important events
-    vscode.window.onDidChangeWindowState((state) => {
-      if (!state.focused) {
-        this.savePersistedData();
-      }
-    });
+    this.disposables.push(
+      vscode.window.onDidChangeWindowState((state) => {
+        if (!state.focused) {
+          this.savePersistedData();
+        }
+      })
+    );
 
-    vscode.workspace.onDidChangeWorkspaceFolders(() => {
-      this.savePersistedData();
-    });
+    this.disposables.push(
+      vscode.workspace.onDidChangeWorkspaceFolders(() => {
+        this.savePersistedData();
+      })
+    );
 
     // Track file switches to build relationships
-    vscode.window.onDidChangeActiveTextEditor((editor) => {
-      if (editor?.document) {
-        this.debouncedRecordFileSwitch(editor.document);
-      }
-    });
+    this.disposables.push(
+      vscode.window.onDidChangeActiveTextEditor((editor) => {
+        if (editor?.document) {
+          this.debouncedRecordFileSwitch(editor.document);
+        }
+      })
+    );
   }
 
   calculateScore(input: string, file: UriExt, context?: ScoringContext): number {
     if (!context?.activeEditor) {
       return 0; // Need active editor to calculate relationships
     }
+    if (isOutsideActiveWorkspaceFolder(file, context)) {
+      return 0; // Only relate files of the active workspace folder
+    }
 
     const activeFilePath = context.activeEditor.document.uri.fsPath;
     const targetFilePath = file.fsPath;
@@ -373,6 +387,18 @@ export class RelationshipScorer implements IContextScorer {
     this.savePersistedData();
   }
 
+  /**
+   * Save pending data and release the event listeners (useful for module deactivation)
+   */
+  public dispose(): void {
+    if (this.debounceTimeout) {
+      clearTimeout(this.debounceTimeout);
+    }
+    this.forceSave();
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this.disposables = [];
+  }
+
   /**
    * Get the top relationships for a specific file (useful for debugging)
    */
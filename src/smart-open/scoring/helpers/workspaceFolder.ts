@@ -0,0 +1,14 @@
+import { UriExt } from "../../picks/interface/IUriExt";
+import { ScoringContext } from "../interface/IContextScorer";
+
+/**
+ * Whether the file belongs to another workspace folder than the active editor.
+ * Repos in a multi-root workspace often share file names and paths, scorers comparing files with the active
+ * editor skip the files of the other folders.
+ */
+export function isOutsideActiveWorkspaceFolder(file: UriExt, context: ScoringContext): boolean {
+  if (!context.activeWorkspaceFolder || !file.workspaceFolder) {
+    return false;
+  }
+  return file.workspaceFolder.uri.toString() !== context.activeWorkspaceFolder.uri.toString();
+}
@@ -1,7 +1,8 @@
 // Main scoring system exports
 export { ScoreCalculator } from "./ScoreCalculator";
 export { FileScore, ScoreConfig, DEFAULT_SCORE_CONFIG } from "./interface/IScore";
-export { IScorer } from "./interface/IScorer";
+export { IScorer, ScoreNormalization } from "./interface/IScorer";
+export { registerScorer } from "./scorerRegistry";
 export { IContextScorer, ScoringContext } from "./interface/IContextScorer";
 
 // Individual scorer implementations
@@ -11,4 +12,3 @@ export { FrequencyScorer } from "./Scorers/FrequencyScorer";
 export { ClosenessScorer } from "./Scorers/ClosenessScorer";
 export { GitScorer } from "./Scorers/GitScorer";
 export { RelationshipScorer } from "./Scorers/RelationshipScorer";
-// ! NEW-SCORER-INSERT-HERE
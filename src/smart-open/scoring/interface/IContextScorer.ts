@@ -1,5 +1,7 @@
 import * as vscode from "vscode";
 import { UriExt } from "../../picks/interface/IUriExt";
+import { SmartOpenQuery } from "../../query";
+import { IScorer } from "./IScorer";
 
 /**
  * Scoring context that provides additional information for scoring algorithms
@@ -15,6 +17,11 @@ export interface ScoringContext {
    */
   activeWorkspaceFolder?: vscode.WorkspaceFolder;
 
+  /**
+   * The parsed search input, scorers should use its terms instead of splitting the input themselves
+   */
+  query?: SmartOpenQuery;
+
   /**
    * All files being scored (useful for relative scoring)
    */
@@ -29,7 +36,7 @@ export interface ScoringContext {
 /**
  * Enhanced scorer interface that supports context-aware scoring
  */
-export interface IContextScorer {
+export interface IContextScorer extends IScorer {
   /**
    * Calculate a score for a file based on the search input and context
    * @param input The search query string
@@ -39,26 +46,6 @@ export interface IContextScorer {
    */
   calculateScore(input: string, file: UriExt, context?: ScoringContext): number;
 
-  /**
-   * A unique identifier for this scorer type
-   */
-  readonly type: string;
-
-  /**
-   * Human readable name for this scorer
-   */
-  readonly name: string;
-
-  /**
-   * Whether this scorer should be enabled by default
-   */
-  readonly enabled: boolean;
-
-  /**
-   * Default weight for this scorer when combining scores
-   */
-  readonly defaultWeight: number;
-
   /**
    * Whether this scorer requires context to function properly
    */
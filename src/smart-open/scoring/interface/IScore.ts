@@ -2,14 +2,8 @@
  * object that holds multiple scoring types
  */
 export interface FileScore {
-  // Individual score components
-  fuzzyScore: number;
-  recencyScore?: number;
-  frequencyScore?: number;
-  closenessScore?: number;
-  gitScore?: number;
-  relationshipScore?: number;
-  // ! NEW-SCORER-INSERT-HERE
+  // Individual score components keyed by scorer type, normalized and weighted by normalizeScores
+  scores: Record<string, number>;
 
   // Final computed score (weighted combination)
   finalScore: number;
@@ -23,24 +17,9 @@ export interface FileScore {
  * Configuration for score weights and settings
  */
 export interface ScoreConfig {
-  weights: {
-    fuzzy: number;
-    recency: number;
-    frequency: number;
-    closeness: number; // Add closeness weight
-    git: number; // Add git weight
-    relationship: number; // Add relationship weight
-    // ! NEW-SCORER-INSERT-HERE
-  };
-  enabled: {
-    fuzzy: boolean;
-    recency: boolean;
-    frequency: boolean;
-    closeness: boolean; // Add closeness enabled flag
-    git: boolean; // Add git enabled flag
-    relationship: boolean; // Add relationship enabled flag
-    // ! NEW-SCORER-INSERT-HERE
-  };
+  // Keyed by the weightKey of each scorer, scorers without an entry use their defaultWeight and enabled
+  weights: Record<string, number>;
+  enabled: Record<string, boolean>;
 }
 
 /**
@@ -83,7 +62,6 @@ export const DEFAULT_SCORE_CONFIG: ScoreConfig = {
     closeness: 0.2, // Path closeness to active editor (20% of total)
     git: 0.1, // Git co-change scoring (10% of total)
     relationship: 0.3, // File relationship scoring (30% of total)
-    // ! NEW-SCORER-INSERT-HERE
   },
   enabled: {
     fuzzy: true,
@@ -92,6 +70,5 @@ export const DEFAULT_SCORE_CONFIG: ScoreConfig = {
     closeness: true,
     git: false, // Disabled by default due to potential performance impact
     relationship: true, // Enable relationship scoring by default
-    // ! NEW-SCORER-INSERT-HERE
   },
 };
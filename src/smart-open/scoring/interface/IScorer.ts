@@ -1,6 +1,14 @@
 import { UriExt } from "../../picks/interface/IUriExt";
 import { ScoringContext } from "./IContextScorer";
 
+/**
+ * How raw scores are spread over 0-100 before weighting, relative to the lowest and highest score of a search
+ * - linear: evenly, for scores that are already well-distributed
+ * - log: compresses high values, for counts that can grow large
+ * - sqrt: between linear and log
+ */
+export type ScoreNormalization = "linear" | "log" | "sqrt";
+
 /**
  * Base interface for all scoring algorithms
  */
@@ -34,9 +42,37 @@ export interface IScorer {
    */
   readonly defaultWeight: number;
 
+  /**
+   * The key of this scorer in the weights and enabled flags of the score config
+   * Falls back to defaultWeight and enabled when the config has no entry for it
+   */
+  readonly weightKey: string;
+
+  /**
+   * How the scores of this scorer are normalized
+   */
+  readonly normalization: ScoreNormalization;
+
+  /**
+   * Widens the normalized range by this fraction, so the highest score stays below the maximum
+   * Default: 0
+   */
+  readonly normalizationSmoothing?: number;
+
+  /**
+   * Short label for the score in the debug details
+   */
+  readonly debugLabel: string;
+
   /**
    * Whether this scorer requires context to function properly
    * Default: false for backward compatibility
    */
   readonly requiresContext?: boolean;
+
+  /**
+   * Release listeners and timers, and persist any pending data
+   * Optional, only needed for scorers that track events
+   */
+  dispose?(): void;
 }
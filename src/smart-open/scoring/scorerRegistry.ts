@@ -0,0 +1,66 @@
+import * as vscode from "vscode";
+import { IScorer } from "./interface/IScorer";
+
+// Scorers contributed by other extensions, kept here so they survive Smart Open being disabled and enabled again
+const contributedScorers: Map<string, IScorer> = new Map();
+const changeEmitter = new vscode.EventEmitter<void>();
+
+/**
+ * Fires when a scorer is contributed or removed
+ */
+export const onDidChangeContributedScorers = changeEmitter.event;
+
+// The types of the built-in scorers of ScoreCalculator, which are also their weight keys
+const builtInScorerTypes = ["fuzzy", "closeness", "recency", "frequency", "git", "relationship"];
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+/**
+ * Adds a scorer to Smart Open, next to the built-in scorers.
+ * The contributor owns the scorer, disposing the returned disposable removes it but does not dispose the scorer.
+ * @throws When the scorer is incomplete, or its type or weight key is taken by a built-in or contributed scorer.
+ */
+export function registerScorer(scorer: IScorer): vscode.Disposable {
+  if (!isNonEmptyString(scorer?.type)) {
+    throw new Error("A scorer needs a type");
+  }
+  if (typeof scorer.calculateScore !== "function") {
+    throw new Error(`Scorer ${scorer.type} needs a calculateScore function`);
+  }
+  if (!isNonEmptyString(scorer.weightKey)) {
+    throw new Error(`Scorer ${scorer.type} needs a weightKey for its weight and enabled flag in the config`);
+  }
+  if (!isNonEmptyString(scorer.debugLabel)) {
+    throw new Error(`Scorer ${scorer.type} needs a debugLabel for the debug details`);
+  }
+  if (typeof scorer.defaultWeight !== "number" || !isFinite(scorer.defaultWeight)) {
+    throw new Error(`Scorer ${scorer.type} needs a defaultWeight number`);
+  }
+  if (!["linear", "log", "sqrt"].includes(scorer.normalization)) {
+    throw new Error(`Scorer ${scorer.type} has an unknown normalization: ${scorer.normalization}`);
+  }
+  if (builtInScorerTypes.includes(scorer.type)) {
+    throw new Error(`${scorer.type} is the type of a built-in scorer`);
+  }
+  if (builtInScorerTypes.includes(scorer.weightKey)) {
+    throw new Error(`Scorer ${scorer.type} can't use ${scorer.weightKey}, the weightKey of a built-in scorer`);
+  }
+  if (contributedScorers.has(scorer.type)) {
+    throw new Error(`A scorer of type ${scorer.type} is already registered`);
+  }
+
+  contributedScorers.set(scorer.type, scorer);
+  changeEmitter.fire();
+  return new vscode.Disposable(() => {
+    if (contributedScorers.get(scorer.type) === scorer) {
+      contributedScorers.delete(scorer.type);
+      changeEmitter.fire();
+    }
+  });
+}
+
+export function getContributedScorers(): IScorer[] {
+  return [...contributedScorers.values()];
+}
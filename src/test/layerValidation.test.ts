@@ -0,0 +1,74 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { LayerSetting, validateLayerSettings } from "../hyper/validation";
+
+function createConfig(values: Partial<Record<LayerSetting, unknown>>): vscode.WorkspaceConfiguration {
+  return {
+    get: (section: string, defaultValue?: unknown) => values[section as LayerSetting] ?? defaultValue,
+  } as unknown as vscode.WorkspaceConfiguration;
+}
+
+suite("Hyper layer validation", () => {
+  test("validateLayerSettings keeps valid layers", () => {
+    const layer = { name: "nav", timeout: 2, actions: { j: "cursorDown", k: ["cursorUp", { command: "noop" }] } };
+    const { layers, problems } = validateLayerSettings(createConfig({ normalLayers: [layer] }));
+    assert.deepStrictEqual(problems, []);
+    assert.deepStrictEqual(layers.normalLayers, [layer]);
+    assert.deepStrictEqual(layers.stickyLayers, []);
+  });
+
+  test("validateLayerSettings leaves out layers with errors", () => {
+    const { layers, problems } = validateLayerSettings(
+      createConfig({ normalLayers: [{ name: "x" }, { name: "ok", actions: { j: "" } }, "nav", { timeout: 1 }] })
+    );
+    assert.deepStrictEqual(layers.normalLayers, []);
+    assert.deepStrictEqual(
+      problems.map(({ path, severity }) => ({ path, severity })),
+      [
+        { path: [0, "name"], severity: vscode.DiagnosticSeverity.Error },
+        { path: [1, "actions", "j"], severity: vscode.DiagnosticSeverity.Error },
+        { path: [2], severity: vscode.DiagnosticSeverity.Error },
+        { path: [3], severity: vscode.DiagnosticSeverity.Error },
+      ]
+    );
+  });
+
+  test("validateLayerSettings rejects names declared twice across settings", () => {
+    const { layers, problems } = validateLayerSettings(
+      createConfig({ normalLayers: [{ name: "nav" }], stickyLayers: [{ name: "nav" }] })
+    );
+    assert.strictEqual(layers.normalLayers.length, 1);
+    assert.deepStrictEqual(layers.stickyLayers, []);
+    assert.strictEqual(problems.length, 1);
+    assert.strictEqual(problems[0].setting, "stickyLayers");
+    assert.match(problems[0].message, /already declared in normalLayers/);
+  });
+
+  test("validateLayerSettings keeps layers that only have warnings", () => {
+    const layer = { name: "sticky", timeout: 3, actions: { jj: "cursorDown" }, extra: true };
+    const { layers, problems } = validateLayerSettings(createConfig({ stickyLayers: [layer] }));
+    assert.deepStrictEqual(layers.stickyLayers, [layer]);
+    assert.deepStrictEqual(
+      problems.map(({ path }) => path),
+      [
+        [0, "timeout"],
+        [0, "actions", "jj"],
+        [0, "extra"],
+      ]
+    );
+    assert.ok(problems.every((problem) => problem.severity === vscode.DiagnosticSeverity.Warning));
+  });
+
+  test("validateLayerSettings reports a setting that is not a list", () => {
+    const { layers, problems } = validateLayerSettings(createConfig({ switchLayers: { name: "nav" } }));
+    assert.deepStrictEqual(layers.switchLayers, []);
+    assert.deepStrictEqual(problems, [
+      {
+        setting: "switchLayers",
+        path: [],
+        message: "Expected a list of layers",
+        severity: vscode.DiagnosticSeverity.Error,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,22 @@
+import * as assert from "assert";
+import { parseMacro } from "../registers/macroRecorder";
+
+suite("Macros", () => {
+  test("parseMacro reads command, type and selection steps", () => {
+    const steps = [
+      { kind: "command", command: "vstoys.motions.deleteLine", args: [{ count: 2 }] },
+      { kind: "type", text: "abc" },
+      { kind: "selection", selections: [{ anchorLine: 1, anchorCharacter: 0, activeLine: 1, activeCharacter: 4 }] },
+    ];
+    assert.deepStrictEqual(parseMacro(JSON.stringify(steps)), steps);
+  });
+
+  test("parseMacro rejects text that is not a list of steps", () => {
+    assert.throws(() => parseMacro("plain text"));
+    assert.throws(() => parseMacro('{ "kind": "type", "text": "a" }'), /json array of steps/);
+    assert.throws(
+      () => parseMacro('[{ "kind": "type", "text": "a" }, { "kind": "command" }]'),
+      /Step 2 is not a command, type or selection step/
+    );
+  });
+});
@@ -0,0 +1,102 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { activate, activateToy, activeToys, deactivateToy, vsToys } from "../extension";
+
+// A memento kept in memory, so the tests don't touch the state of the installed extension
+class MemoryMemento implements vscode.Memento {
+  private readonly values = new Map<string, unknown>();
+
+  keys(): readonly string[] {
+    return [...this.values.keys()];
+  }
+
+  get<T>(key: string, defaultValue?: T): T | undefined {
+    return this.values.has(key) ? (this.values.get(key) as T) : defaultValue;
+  }
+
+  async update(key: string, value: unknown): Promise<void> {
+    if (value === undefined) {
+      this.values.delete(key);
+    } else {
+      this.values.set(key, value);
+    }
+  }
+
+  setKeysForSync(): void {}
+}
+
+function createContext(): vscode.ExtensionContext {
+  return {
+    subscriptions: [],
+    workspaceState: new MemoryMemento(),
+    globalState: new MemoryMemento(),
+    globalStorageUri: vscode.Uri.file("/tmp/vstoys-test/User/globalStorage/logonz.vstoys"),
+  } as unknown as vscode.ExtensionContext;
+}
+
+async function getVsToysCommands(): Promise<string[]> {
+  return (await vscode.commands.getCommands(true)).filter((command) => command.startsWith("vstoys.")).sort();
+}
+
+function wait(milliseconds: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, milliseconds));
+}
+
+/**
+ * Activates the toy, then deactivates it and checks that every subscription was disposed.
+ * @returns The VsToys commands that were registered while it was active
+ */
+async function activateAndDeactivate(toy: (typeof vsToys)[number], context: vscode.ExtensionContext) {
+  const commandsBefore = await getVsToysCommands();
+
+  activateToy(toy, context);
+  // Smart Open registers some of its commands after a delay
+  await wait(500);
+  const activeCommands = await getVsToysCommands();
+  const moduleContext = activeToys.get(toy.moduleContext);
+  assert.ok(moduleContext, `${toy.name} has no module context`);
+
+  const disposed = moduleContext.subscriptions.map(() => false);
+  moduleContext.subscriptions.forEach((subscription, index) => {
+    const dispose = subscription.dispose.bind(subscription);
+    subscription.dispose = () => {
+      disposed[index] = true;
+      return dispose();
+    };
+  });
+
+  deactivateToy(toy);
+  await wait(100);
+
+  const notDisposed = disposed.flatMap((isDisposed, index) => (isDisposed ? [] : [index]));
+  assert.deepStrictEqual(notDisposed, [], "Subscriptions were not disposed");
+  assert.strictEqual(moduleContext.subscriptions.length, 0);
+  assert.strictEqual(activeToys.has(toy.moduleContext), false);
+  assert.deepStrictEqual(await getVsToysCommands(), commandsBefore, "Commands are still registered");
+  return activeCommands;
+}
+
+suite("Module activation", function () {
+  this.timeout(10000);
+  const context = createContext();
+
+  suiteSetup(async () => {
+    // The installed extension registers the same commands, tear its modules down first
+    await vscode.workspace.getConfiguration("vstoys").update("enabled", false, vscode.ConfigurationTarget.Global);
+    await wait(500);
+    activate(context);
+  });
+
+  suiteTeardown(async () => {
+    context.subscriptions.forEach((subscription) => subscription.dispose());
+    await vscode.workspace.getConfiguration("vstoys").update("enabled", undefined, vscode.ConfigurationTarget.Global);
+  });
+
+  for (const toy of vsToys) {
+    test(`${toy.name} disposes every subscription when it is deactivated`, async () => {
+      const activeCommands = await activateAndDeactivate(toy, context);
+      // Activating again registers the same commands, nothing was left behind to clash with
+      assert.deepStrictEqual(await activateAndDeactivate(toy, context), activeCommands);
+    });
+  }
+});
@@ -0,0 +1,82 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { matchesQuery, parseQuery } from "../smart-open/query";
+import { UriExt } from "../smart-open/picks/interface/IUriExt";
+
+function createFile(relativePath: string, customLabel?: string): UriExt {
+  const uri = vscode.Uri.file(`/workspace/${relativePath}`);
+  return {
+    uri,
+    fsPath: uri.fsPath,
+    fileName: relativePath.substring(relativePath.lastIndexOf("/") + 1),
+    relativePath,
+    customLabel,
+  };
+}
+
+suite("Smart Open query", () => {
+  test("parseQuery sorts the parts by their syntax", () => {
+    assert.deepStrictEqual(parseQuery("ext:.TS dir:./src/jump/ !Test 'Handler main lib/"), {
+      terms: ["main"],
+      exactTerms: ["Handler"],
+      extensions: ["ts"],
+      directories: ["src/jump", "lib"],
+      excludes: ["test"],
+    });
+  });
+
+  test("parseQuery reads the line and column", () => {
+    const query = parseQuery("main.ts:42:5");
+    assert.deepStrictEqual(query.terms, ["main.ts"]);
+    assert.strictEqual(query.line, 42);
+    assert.strictEqual(query.column, 5);
+
+    const lineOnly = parseQuery(":42");
+    assert.deepStrictEqual(lineOnly.terms, []);
+    assert.strictEqual(lineOnly.line, 42);
+    assert.strictEqual(lineOnly.column, undefined);
+  });
+
+  test("parseQuery reads the symbol but not a scoped package", () => {
+    const query = parseQuery("main.ts@activate");
+    assert.deepStrictEqual(query.terms, ["main.ts"]);
+    assert.strictEqual(query.symbol, "activate");
+
+    const scoped = parseQuery("node_modules/@types");
+    assert.deepStrictEqual(scoped.terms, ["node_modules/@types"]);
+    assert.strictEqual(scoped.symbol, undefined);
+  });
+
+  test("parseQuery ignores empty filters", () => {
+    assert.deepStrictEqual(parseQuery("ext: dir: ! '"), {
+      terms: [],
+      exactTerms: [],
+      extensions: [],
+      directories: [],
+      excludes: [],
+    });
+  });
+
+  test("matchesQuery needs every term and exact term", () => {
+    const file = createFile("src/jump/RegularJumpHandler.ts");
+    assert.ok(matchesQuery(parseQuery("jump handler"), file));
+    assert.ok(matchesQuery(parseQuery("'Handler"), file));
+    assert.ok(!matchesQuery(parseQuery("'handler"), file));
+    assert.ok(!matchesQuery(parseQuery("jump motion"), file));
+  });
+
+  test("matchesQuery filters by extension, directory and exclude", () => {
+    const file = createFile("src/jump/main.ts");
+    assert.ok(matchesQuery(parseQuery("ext:ts"), file));
+    assert.ok(!matchesQuery(parseQuery("ext:js"), file));
+    assert.ok(matchesQuery(parseQuery("dir:src/jump main"), file));
+    assert.ok(!matchesQuery(parseQuery("dir:src/motions main"), file));
+    assert.ok(!matchesQuery(parseQuery("main !jump"), file));
+  });
+
+  test("matchesQuery matches terms in the custom label", () => {
+    const file = createFile("src/jump/main.ts", "Jump Entry");
+    assert.ok(matchesQuery(parseQuery("entry"), file));
+    assert.ok(!matchesQuery(parseQuery("main !entry"), file));
+  });
+});
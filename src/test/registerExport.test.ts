@@ -0,0 +1,84 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { parseRegisters, registerExportVersion, serializeRegisters } from "../registers/registerExport";
+import { RegisterContent } from "../registers/registerManager";
+
+const folder: vscode.WorkspaceFolder = { uri: vscode.Uri.file("/repo"), name: "repo", index: 0 };
+
+suite("Register export", () => {
+  test("parseRegisters reads what serializeRegisters wrote", () => {
+    const content: RegisterContent = {
+      text: "foo\nbar",
+      timestamp: new Date("2024-05-01T12:00:00.000Z"),
+      source: "yank from motions",
+      fragments: ["foo", "bar"],
+      location: {
+        uri: vscode.Uri.file("/repo/src/main.ts").toString(),
+        startLine: 1,
+        startCharacter: 2,
+        endLine: 3,
+        endCharacter: 4,
+      },
+      languageId: "typescript",
+      linewise: true,
+      macro: false,
+    };
+
+    const json = serializeRegisters([{ name: "a", content }], folder);
+    assert.strictEqual(JSON.parse(json).registers.a.location.path, "src/main.ts");
+
+    const { registers, problems } = parseRegisters(json, folder);
+    assert.deepStrictEqual(problems, []);
+    assert.deepStrictEqual(registers.get("a"), content);
+  });
+
+  test("parseRegisters keeps locations outside the workspace folder as uris", () => {
+    const uri = vscode.Uri.file("/elsewhere/notes.md").toString();
+    const location = { uri, startLine: 0, startCharacter: 0, endLine: 0, endCharacter: 5 };
+    const json = serializeRegisters(
+      [{ name: "b", content: { text: "notes", timestamp: new Date(), location } }],
+      folder
+    );
+    assert.deepStrictEqual(parseRegisters(json, folder).registers.get("b")?.location, location);
+  });
+
+  test("parseRegisters drops invalid fields and reports them", () => {
+    const json = JSON.stringify({
+      version: registerExportVersion,
+      registers: {
+        a: {
+          text: "kept",
+          timestamp: "not a date",
+          source: 2,
+          fragments: ["one", 2],
+          location: { path: "src/main.ts", startLine: "1", startCharacter: 0, endLine: 1, endCharacter: 0 },
+          linewise: "yes",
+          macro: 1,
+        },
+        b: { timestamp: "2024-05-01T12:00:00.000Z" },
+      },
+    });
+
+    const { registers, problems } = parseRegisters(json, folder);
+    assert.deepStrictEqual([...registers.keys()], ["a"]);
+    assert.deepStrictEqual(Object.keys(registers.get("a")!).sort(), ["text", "timestamp"]);
+    assert.ok(!isNaN(registers.get("a")!.timestamp.getTime()));
+    assert.deepStrictEqual(problems, [
+      "Register a: dropped source, expected a string",
+      "Register a: dropped fragments, expected a list of strings",
+      "Register a: dropped location, expected a path or uri with line and character numbers",
+      "Register a: dropped linewise, expected true or false",
+      "Register a: dropped macro, expected true or false",
+      "Register b: skipped, it has no text",
+    ]);
+  });
+
+  test("parseRegisters rejects other files and newer versions", () => {
+    assert.throws(() => parseRegisters("{}", folder), /Not a register export/);
+    assert.throws(() => parseRegisters("not json", folder));
+    assert.throws(
+      () => parseRegisters(JSON.stringify({ version: registerExportVersion + 1, registers: {} }), folder),
+      /newer than the supported version/
+    );
+  });
+});
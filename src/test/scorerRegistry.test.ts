@@ -0,0 +1,69 @@
+import * as assert from "assert";
+import {
+  getContributedScorers,
+  onDidChangeContributedScorers,
+  registerScorer,
+} from "../smart-open/scoring/scorerRegistry";
+import { IScorer } from "../smart-open/scoring";
+
+function createScorer(overrides: Partial<Record<keyof IScorer, unknown>> = {}): IScorer {
+  return {
+    type: "custom",
+    name: "Custom",
+    enabled: true,
+    defaultWeight: 0.2,
+    weightKey: "custom",
+    normalization: "linear",
+    debugLabel: "Cus",
+    calculateScore: () => 1,
+    ...overrides,
+  } as IScorer;
+}
+
+suite("Smart Open scorer registry", () => {
+  test("registerScorer adds the scorer until it is disposed", () => {
+    let changes = 0;
+    const listener = onDidChangeContributedScorers(() => changes++);
+    const scorer = createScorer();
+
+    const registration = registerScorer(scorer);
+    assert.deepStrictEqual(getContributedScorers(), [scorer]);
+    registration.dispose();
+    assert.deepStrictEqual(getContributedScorers(), []);
+    // The old registration does not remove another scorer registered with the same type
+    const again = registerScorer(createScorer());
+    registration.dispose();
+    assert.strictEqual(getContributedScorers().length, 1);
+    again.dispose();
+
+    listener.dispose();
+    assert.strictEqual(changes, 4);
+  });
+
+  test("registerScorer rejects a type that is already registered", () => {
+    const registration = registerScorer(createScorer());
+    try {
+      assert.throws(() => registerScorer(createScorer({ weightKey: "other" })), /already registered/);
+    } finally {
+      registration.dispose();
+    }
+  });
+
+  test("registerScorer rejects the types and weight keys of the built-in scorers", () => {
+    for (const type of ["fuzzy", "closeness", "recency", "frequency", "git", "relationship"]) {
+      assert.throws(() => registerScorer(createScorer({ type })), /built-in scorer/);
+      assert.throws(() => registerScorer(createScorer({ weightKey: type })), /built-in scorer/);
+    }
+    assert.deepStrictEqual(getContributedScorers(), []);
+  });
+
+  test("registerScorer rejects incomplete scorers", () => {
+    assert.throws(() => registerScorer(createScorer({ type: "" })), /needs a type/);
+    assert.throws(() => registerScorer(createScorer({ calculateScore: undefined })), /calculateScore/);
+    assert.throws(() => registerScorer(createScorer({ weightKey: undefined })), /weightKey/);
+    assert.throws(() => registerScorer(createScorer({ debugLabel: 3 })), /debugLabel/);
+    assert.throws(() => registerScorer(createScorer({ defaultWeight: "high" })), /defaultWeight/);
+    assert.throws(() => registerScorer(createScorer({ normalization: "cubic" })), /unknown normalization/);
+    assert.deepStrictEqual(getContributedScorers(), []);
+  });
+});
@@ -0,0 +1,36 @@
+import * as assert from "assert";
+import { applyTransforms, findUnknownTransforms, getTransforms, RegisterTransform } from "../registers/transforms";
+
+suite("Register transforms", () => {
+  const transforms = getTransforms();
+
+  test("applyTransforms changes the case of every line, keeping its indentation", () => {
+    assert.strictEqual(applyTransforms("fooBar baz\n  qux-quux", ["snakeCase"], transforms), "foo_bar_baz\n  qux_quux");
+    assert.strictEqual(applyTransforms("foo_bar", ["camelCase"], transforms), "fooBar");
+    assert.strictEqual(applyTransforms("foo_bar", ["pascalCase"], transforms), "FooBar");
+    assert.strictEqual(applyTransforms("HTTPServer", ["kebabCase"], transforms), "http-server");
+  });
+
+  test("applyTransforms applies the transforms in order", () => {
+    assert.strictEqual(
+      applyTransforms("  foo \n bar  ", ["trimLines", "joinLines", "doubleQuote"], transforms),
+      '"foo bar"'
+    );
+    assert.strictEqual(applyTransforms("text", [], transforms), "text");
+  });
+
+  test("applyTransforms throws on an unknown transform before applying any", () => {
+    let applied = false;
+    const spy: RegisterTransform = { name: "spy", description: "", apply: (text) => ((applied = true), text) };
+    assert.throws(() => applyTransforms("text", ["spy", "missing"], [spy]), /Unknown register transform missing/);
+    assert.strictEqual(applied, false);
+  });
+
+  test("findUnknownTransforms lists the unknown names in order", () => {
+    assert.deepStrictEqual(findUnknownTransforms(["upperCase", "nope", "trim", "other"], transforms), [
+      "nope",
+      "other",
+    ]);
+    assert.deepStrictEqual(findUnknownTransforms([], transforms), []);
+  });
+});